@@ -0,0 +1,40 @@
+/**
+ * Attachment upload policy
+ * Limits which Gmail attachments the bot will copy into Slack
+ */
+
+import type { Attachment } from './gmail-client.js';
+import { formatBytes } from './gmail-client.js';
+
+// Max attachment size to upload (default: 10 MB, override with ATTACHMENT_MAX_BYTES)
+export const MAX_ATTACHMENT_BYTES = parseInt(process.env.ATTACHMENT_MAX_BYTES || '') || 10 * 1024 * 1024;
+
+// Document and image types that are safe to share; archives, executables, etc. are refused
+const ALLOWED_MIME_TYPES = new Set([
+  'application/pdf',
+  'text/plain',
+  'text/csv',
+  'text/calendar',
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.ms-powerpoint',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+]);
+
+// Returns the reason an attachment may not be uploaded, or null if it is allowed
+export function checkAttachmentPolicy(attachment: Pick<Attachment, 'mimeType' | 'size'>): string | null {
+  const mimeType = attachment.mimeType.toLowerCase().split(';')[0].trim();
+  if (!ALLOWED_MIME_TYPES.has(mimeType)) {
+    return `File type ${mimeType} is not allowed for upload to Slack`;
+  }
+  if (attachment.size > MAX_ATTACHMENT_BYTES) {
+    return `File is ${formatBytes(attachment.size)}, over the ${formatBytes(MAX_ATTACHMENT_BYTES)} upload limit`;
+  }
+  return null;
+}
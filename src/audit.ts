@@ -0,0 +1,137 @@
+/**
+ * Audit log of mailbox changes
+ * Every mutating Gmail call is recorded with who made it, where, through which entry
+ * point, the messages it touched and how it ended. Each write rewrites the user's log
+ * in the 'audit' store, keeping the newest MAX_AUDIT_ENTRIES; large batches keep only
+ * their first MAX_IDS_PER_ENTRY message IDs plus the total count.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { createStore } from './store.js';
+
+// Where a change came from: a slash command, a button or modal, the assistant, or a background job
+export type AuditSource = 'slash' | 'button' | 'modal' | 'shortcut' | 'tool' | 'rule' | 'snooze' | 'other';
+
+export interface AuditEntry {
+  timestamp: number; // epoch ms
+  userId: string;
+  channelId?: string;
+  source: AuditSource;
+  action: string; // e.g. trash, send, batch_archive
+  messageIds: string[]; // at most MAX_IDS_PER_ENTRY
+  messageCount?: number; // set when messageIds was cut short
+  outcome: 'success' | 'failure' | 'error';
+  detail?: string; // recipients, label changes, ...
+  error?: string;
+}
+
+interface UserAudit {
+  entries: AuditEntry[];
+}
+
+interface AuditContext {
+  channelId?: string;
+  source: AuditSource;
+}
+
+const MAX_AUDIT_ENTRIES = 1000;
+const MAX_IDS_PER_ENTRY = 20;
+
+// Key: Slack user ID
+const auditStore = createStore<UserAudit>('audit');
+
+const auditContext = new AsyncLocalStorage<AuditContext>();
+
+// Run fn with the source (and channel) that changes made inside it are attributed to;
+// fields not given are inherited from the surrounding context
+export function withAuditContext<T>(context: Partial<AuditContext>, fn: () => Promise<T>): Promise<T> {
+  const current = auditContext.getStore();
+  return auditContext.run({ source: 'other', ...current, ...context }, fn);
+}
+
+// Failing to write the log never fails the change itself
+export async function recordAudit(
+  userId: string,
+  entry: Pick<AuditEntry, 'action' | 'messageIds' | 'outcome' | 'detail' | 'error'>
+): Promise<void> {
+  const context = auditContext.getStore();
+  const record: AuditEntry = {
+    timestamp: Date.now(),
+    userId,
+    ...(context?.channelId && { channelId: context.channelId }),
+    source: context?.source ?? 'other',
+    ...entry,
+    messageIds: entry.messageIds.slice(0, MAX_IDS_PER_ENTRY),
+    ...(entry.messageIds.length > MAX_IDS_PER_ENTRY && { messageCount: entry.messageIds.length }),
+  };
+
+  try {
+    const state = (await auditStore.get(userId)) ?? { entries: [] };
+    state.entries = [...state.entries, record].slice(-MAX_AUDIT_ENTRIES);
+    await auditStore.set(userId, state);
+  } catch (error) {
+    console.error('Failed to write audit entry:', error);
+  }
+}
+
+export interface AuditFilter {
+  limit: number;
+  action?: string; // "trash" also matches batch_trash; "batch" matches every batch action
+  since?: number;
+  until?: number;
+}
+
+function matchesAction(entry: AuditEntry, action: string): boolean {
+  return action === 'batch'
+    ? entry.action.startsWith('batch_')
+    : entry.action === action || entry.action === `batch_${action}`;
+}
+
+// Newest first
+export async function listAuditEntries(userId: string, filter: AuditFilter): Promise<AuditEntry[]> {
+  const entries = (await auditStore.get(userId))?.entries ?? [];
+  return entries
+    .filter(entry => !filter.action || matchesAction(entry, filter.action))
+    .filter(entry => filter.since === undefined || entry.timestamp >= filter.since)
+    .filter(entry => filter.until === undefined || entry.timestamp <= filter.until)
+    .slice(-filter.limit)
+    .reverse();
+}
+
+const OUTCOME_ICONS: Record<AuditEntry['outcome'], string> = {
+  success: '✅',
+  failure: '⚠️',
+  error: '❌',
+};
+
+function formatIds(ids: string[], total: number = ids.length, max: number = 3): string {
+  const shown = ids.slice(0, max).map(id => `\`${id}\``).join(', ');
+  return total > max ? `${shown} +${total - max} more` : shown;
+}
+
+export function formatAuditEntriesForSlack(entries: AuditEntry[], timeZone: string): string {
+  if (entries.length === 0) {
+    return 'No matching actions in your audit log.';
+  }
+
+  const time = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  });
+  return entries.map(entry => {
+    const parts = [
+      `${OUTCOME_ICONS[entry.outcome]} ${time.format(new Date(entry.timestamp))} · *${entry.action}* via ${entry.source}`,
+      ...(entry.channelId ? [`in <#${entry.channelId}>`] : []),
+    ];
+    const details = [
+      ...(entry.messageIds.length > 0 ? [formatIds(entry.messageIds, entry.messageCount)] : []),
+      ...(entry.detail ? [entry.detail] : []),
+      ...(entry.error ? [`_${entry.error}_`] : []),
+    ];
+    return details.length > 0 ? `${parts.join(' ')}\n    ${details.join(' · ')}` : parts.join(' ');
+  }).join('\n');
+}
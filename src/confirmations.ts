@@ -0,0 +1,329 @@
+/**
+ * Slack confirmation step for destructive or outbound tool calls
+ * The assistant waits on a pending confirmation until someone clicks Confirm or Cancel;
+ * irreversible actions are confirmed by typing a word in a dialog instead
+ */
+
+import { randomUUID } from 'node:crypto';
+import type { KnownBlock, ModalView } from '@slack/bolt';
+import { BATCH_MAX_MESSAGES, type ReplyRecipients } from './gmail-client.js';
+
+export const CONFIRM_ACTION_ID = 'gmail_tool_confirm';
+export const CANCEL_ACTION_ID = 'gmail_tool_cancel';
+export const TYPED_CONFIRM_ACTION_ID = 'gmail_tool_typed_confirm';
+export const TYPED_CONFIRM_VIEW_ID = 'gmail_tool_typed_confirm_view';
+
+// Irreversible tools are confirmed by typing this word in a dialog instead of one click
+export const TYPED_CONFIRMATION_WORD = 'DELETE';
+const TOOLS_REQUIRING_TYPED_CONFIRMATION = new Set(['delete_email_permanently']);
+
+// Unanswered confirmations are treated as cancelled after 5 minutes
+const CONFIRMATION_TIMEOUT_MS = 5 * 60 * 1000;
+
+interface PendingConfirmation {
+  userId: string;
+  summary: string;
+  resolve: (approved: boolean) => void;
+  timer: NodeJS.Timeout;
+}
+
+// Pending confirmations: key = confirmation ID (carried in the button value)
+const pendingConfirmations = new Map<string, PendingConfirmation>();
+
+export type ConfirmationResult =
+  | { status: 'resolved'; summary: string }
+  | { status: 'not_found' }
+  | { status: 'forbidden' };
+
+// Register a confirmation and get a promise that settles when it is answered
+export function createConfirmation(
+  userId: string,
+  summary: string
+): { id: string; approved: Promise<boolean> } {
+  const id = randomUUID();
+
+  const approved = new Promise<boolean>((resolve) => {
+    const timer = setTimeout(() => {
+      pendingConfirmations.delete(id);
+      resolve(false);
+    }, CONFIRMATION_TIMEOUT_MS);
+
+    pendingConfirmations.set(id, { userId, summary, resolve, timer });
+  });
+
+  return { id, approved };
+}
+
+// Who may answer a pending confirmation, and what it is for
+export function getPendingConfirmation(id: string): { userId: string; summary: string } | undefined {
+  const pending = pendingConfirmations.get(id);
+  return pending && { userId: pending.userId, summary: pending.summary };
+}
+
+// Answer a pending confirmation - only the user who made the request may do so
+export function resolveConfirmation(id: string, userId: string, approved: boolean): ConfirmationResult {
+  const pending = pendingConfirmations.get(id);
+  if (!pending) {
+    return { status: 'not_found' };
+  }
+  if (pending.userId !== userId) {
+    return { status: 'forbidden' };
+  }
+
+  clearTimeout(pending.timer);
+  pendingConfirmations.delete(id);
+  pending.resolve(approved);
+  return { status: 'resolved', summary: pending.summary };
+}
+
+// Drop a confirmation nobody can answer (e.g. its prompt could not be posted); it resolves as not approved
+export function cancelConfirmation(id: string): void {
+  const pending = pendingConfirmations.get(id);
+  if (!pending) return;
+
+  clearTimeout(pending.timer);
+  pendingConfirmations.delete(id);
+  pending.resolve(false);
+}
+
+function truncate(text: string, max: number = 500): string {
+  return text.length > max ? text.substring(0, max) + '...' : text;
+}
+
+function formatIdList(ids: string[], max: number = 10): string {
+  const shown = ids.slice(0, max).map(id => `\`${id}\``).join(', ');
+  return ids.length > max ? `${shown} _and ${ids.length - max} more_` : shown;
+}
+
+// Batch tools target either explicit message IDs or every email matching a query
+function describeBatchTarget(input: Record<string, unknown>): string {
+  return input.query
+    ? `all emails matching \`${input.query}\``
+    : `${((input.messageIds as string[] | undefined) ?? []).length} emails`;
+}
+
+function previewBatchTarget(input: Record<string, unknown>): string {
+  return input.query
+    ? `*Query:* \`${input.query}\` _(every match, up to ${BATCH_MAX_MESSAGES})_`
+    : formatIdList((input.messageIds as string[] | undefined) ?? []);
+}
+
+// Replies carry the recipients resolved from the original email
+function previewReplyRecipients(recipients: ReplyRecipients | undefined): string[] {
+  if (!recipients) {
+    return ['*To:* _could not be determined; the original email may be gone_'];
+  }
+  return [
+    `*To:* ${recipients.to.join(', ') || '_nobody_'}`,
+    ...(recipients.cc.length > 0 ? [`*Cc:* ${recipients.cc.join(', ')}`] : []),
+  ];
+}
+
+// One-line description of a tool call, used once the confirmation is answered
+export function summarizeToolCall(toolName: string, input: Record<string, unknown>): string {
+  switch (toolName) {
+    case 'send_email':
+      return `Send "${input.subject}" to ${input.to}`;
+    case 'reply_to_email':
+      return `Reply to email ${input.messageId}`;
+    case 'reply_all_to_email':
+      return `Reply all to email ${input.messageId}`;
+    case 'forward_email':
+      return `Forward email ${input.messageId} to ${(input.to as string[]).join(', ')}`;
+    case 'send_draft':
+      return `Send draft ${input.draftId}`;
+    case 'delete_draft':
+      return `Delete draft ${input.draftId}`;
+    case 'trash_email':
+      return `Trash email ${input.messageId}`;
+    case 'delete_email_permanently':
+      return `Permanently delete email ${input.messageId}`;
+    case 'delete_label':
+      return `Delete label "${input.label}"`;
+    case 'batch_star_emails':
+      return `Star ${describeBatchTarget(input)}`;
+    case 'batch_apply_label':
+      return `Apply label "${input.label}" to ${describeBatchTarget(input)}`;
+    case 'batch_remove_label':
+      return `Remove label "${input.label}" from ${describeBatchTarget(input)}`;
+    case 'batch_archive_emails':
+      return `Archive ${describeBatchTarget(input)}`;
+    case 'batch_mark_read':
+      return `Mark ${describeBatchTarget(input)} as read`;
+    case 'batch_trash_emails':
+      return `Trash ${describeBatchTarget(input)}`;
+    case 'set_vacation_settings':
+      return input.enabled ? 'Turn on the vacation responder' : 'Turn off the vacation responder';
+    default:
+      return toolName;
+  }
+}
+
+// Detailed mrkdwn preview of what the tool call will do
+function previewToolCall(toolName: string, input: Record<string, unknown>): string {
+  switch (toolName) {
+    case 'send_email':
+      return [
+        '*✉️ Send email*',
+        `*To:* ${input.to}`,
+        `*Subject:* ${input.subject}`,
+        `\n>>> ${truncate(input.body as string)}`,
+      ].join('\n');
+    case 'reply_to_email':
+    case 'reply_all_to_email':
+      return [
+        toolName === 'reply_all_to_email' ? '*↩️ Reply all*' : '*↩️ Reply*',
+        `*In reply to:* \`${input.messageId}\``,
+        ...previewReplyRecipients(input.recipients as ReplyRecipients | undefined),
+        `\n>>> ${truncate(input.body as string)}`,
+      ].join('\n');
+    case 'forward_email':
+      return [
+        '*➡️ Forward email*',
+        `*Email:* \`${input.messageId}\``,
+        `*To:* ${(input.to as string[]).join(', ')}`,
+        ...(input.note ? [`\n>>> ${truncate(input.note as string)}`] : []),
+      ].join('\n');
+    case 'send_draft':
+      return `*✉️ Send draft*\n*Draft ID:* \`${input.draftId}\``;
+    case 'delete_draft':
+      return `*🗑️ Delete draft*\n*Draft ID:* \`${input.draftId}\`\nDrafts skip the trash, so this *cannot be undone*.`;
+    case 'trash_email':
+      return `*🗑️ Move email to trash*\n*Email:* \`${input.messageId}\``;
+    case 'delete_email_permanently':
+      return `*⚠️ Permanently delete email*\n*Email:* \`${input.messageId}\`\nThis skips the trash and *cannot be undone*.`;
+    case 'delete_label':
+      return `*🏷️ Delete label*\n*Label:* ${input.label}\nEmails with this label are kept; they just lose the label.`;
+    case 'batch_star_emails':
+      return `*⭐ Star ${describeBatchTarget(input)}*\n${previewBatchTarget(input)}`;
+    case 'batch_apply_label':
+      return [
+        `*🏷️ Apply label "${input.label}" to ${describeBatchTarget(input)}*`,
+        previewBatchTarget(input),
+        ...(input.createIfMissing ? ['_The label is created if it does not exist yet._'] : []),
+      ].join('\n');
+    case 'batch_remove_label':
+      return `*🏷️ Remove label "${input.label}" from ${describeBatchTarget(input)}*\n${previewBatchTarget(input)}`;
+    case 'batch_archive_emails':
+      return `*📁 Archive ${describeBatchTarget(input)}*\n${previewBatchTarget(input)}`;
+    case 'batch_mark_read':
+      return `*✅ Mark ${describeBatchTarget(input)} as read*\n${previewBatchTarget(input)}`;
+    case 'batch_trash_emails':
+      return `*🗑️ Move ${describeBatchTarget(input)} to trash*\n${previewBatchTarget(input)}`;
+    case 'set_vacation_settings':
+      if (!input.enabled) {
+        return '*🏖️ Turn off vacation responder*';
+      }
+      return [
+        '*🏖️ Turn on vacation responder*',
+        'People who email you get this reply automatically.',
+        `*Subject:* ${input.subject ?? '_unchanged_'}`,
+        `*From:* ${input.startDate ?? '_unchanged_'} · *Until:* ${input.endDate ?? '_unchanged_'}`,
+        ...(input.restrictToContacts !== undefined
+          ? [`*Only contacts:* ${input.restrictToContacts ? 'yes' : 'no'}`]
+          : []),
+        input.message ? `\n>>> ${truncate(input.message as string)}` : '*Message:* _unchanged_',
+      ].join('\n');
+    default:
+      return `*${toolName}*\n\`\`\`${truncate(JSON.stringify(input, null, 2))}\`\`\``;
+  }
+}
+
+export function buildConfirmationBlocks(
+  confirmationId: string,
+  toolName: string,
+  input: Record<string, unknown>
+): KnownBlock[] {
+  if (TOOLS_REQUIRING_TYPED_CONFIRMATION.has(toolName)) {
+    return buildTypedConfirmationBlocks(confirmationId, toolName, input);
+  }
+
+  return [
+    {
+      type: 'section',
+      text: { type: 'mrkdwn', text: `🛑 *Confirmation needed*\n\n${previewToolCall(toolName, input)}` },
+    },
+    {
+      type: 'actions',
+      elements: [
+        {
+          type: 'button',
+          action_id: CONFIRM_ACTION_ID,
+          style: 'primary',
+          text: { type: 'plain_text', text: 'Confirm' },
+          value: confirmationId,
+        },
+        {
+          type: 'button',
+          action_id: CANCEL_ACTION_ID,
+          style: 'danger',
+          text: { type: 'plain_text', text: 'Cancel' },
+          value: confirmationId,
+        },
+      ],
+    },
+    {
+      type: 'context',
+      elements: [{ type: 'mrkdwn', text: '_Expires in 5 minutes. Nothing happens until you confirm._' }],
+    },
+  ];
+}
+
+function buildTypedConfirmationBlocks(
+  confirmationId: string,
+  toolName: string,
+  input: Record<string, unknown>
+): KnownBlock[] {
+  return [
+    {
+      type: 'section',
+      text: { type: 'mrkdwn', text: `🛑 *Confirmation needed*\n\n${previewToolCall(toolName, input)}` },
+    },
+    {
+      type: 'actions',
+      elements: [
+        {
+          type: 'button',
+          action_id: TYPED_CONFIRM_ACTION_ID,
+          style: 'danger',
+          text: { type: 'plain_text', text: 'Type to confirm...' },
+          value: confirmationId,
+        },
+        {
+          type: 'button',
+          action_id: CANCEL_ACTION_ID,
+          text: { type: 'plain_text', text: 'Cancel' },
+          value: confirmationId,
+        },
+      ],
+    },
+    {
+      type: 'context',
+      elements: [{ type: 'mrkdwn', text: `_Expires in 5 minutes. You'll be asked to type ${TYPED_CONFIRMATION_WORD} to go ahead._` }],
+    },
+  ];
+}
+
+// Dialog for typed confirmations; the response URL lets the submission update the original prompt
+export function buildTypedConfirmationModal(confirmationId: string, summary: string, responseUrl?: string): ModalView {
+  return {
+    type: 'modal',
+    callback_id: TYPED_CONFIRM_VIEW_ID,
+    private_metadata: JSON.stringify({ confirmationId, responseUrl }),
+    title: { type: 'plain_text', text: 'Confirm deletion' },
+    submit: { type: 'plain_text', text: 'Delete forever' },
+    close: { type: 'plain_text', text: 'Cancel' },
+    blocks: [
+      {
+        type: 'section',
+        text: { type: 'mrkdwn', text: `⚠️ *${summary}*\n\nThis cannot be undone.` },
+      },
+      {
+        type: 'input',
+        block_id: 'typed_confirmation',
+        label: { type: 'plain_text', text: `Type ${TYPED_CONFIRMATION_WORD} to confirm` },
+        element: { type: 'plain_text_input', action_id: 'value' },
+      },
+    ],
+  };
+}
@@ -0,0 +1,33 @@
+/**
+ * Per-Slack-user Gmail credentials
+ * Maps each Slack user to their own Gmail HTTP API key or OAuth token
+ */
+
+import { createStore } from './store.js';
+
+export type CredentialType = 'api_key' | 'oauth_token';
+
+export interface GmailCredentials {
+  type: CredentialType;
+  value: string;
+  connectedAt: number;
+}
+
+// Key: Slack user ID
+const credentialStore = createStore<GmailCredentials>('credentials');
+
+export async function getGmailCredentials(userId: string): Promise<GmailCredentials | undefined> {
+  return credentialStore.get(userId);
+}
+
+export async function hasGmailCredentials(userId: string): Promise<boolean> {
+  return (await credentialStore.get(userId)) !== undefined;
+}
+
+export async function setGmailCredentials(userId: string, type: CredentialType, value: string): Promise<void> {
+  await credentialStore.set(userId, { type, value, connectedAt: Date.now() });
+}
+
+export async function deleteGmailCredentials(userId: string): Promise<boolean> {
+  return credentialStore.delete(userId);
+}
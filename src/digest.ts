@@ -0,0 +1,186 @@
+/**
+ * Scheduled daily inbox digest
+ * Each user picks a local time and a Gmail query; once a day the matching emails
+ * are grouped and summarized by Claude and sent to the user by DM
+ */
+
+import type { App, KnownBlock } from '@slack/bolt';
+import { searchEmails, withGmailUser, type EmailMessage } from './gmail-client.js';
+import { summarizeEmailsForDigest, type DigestItem } from './gmail-assistant.js';
+import { buildTextBlocks, escapeMrkdwn } from './email-blocks.js';
+import { createStore } from './store.js';
+import { hasGmailCredentials } from './credentials.js';
+import { logRequest } from './request-log.js';
+
+type SlackClient = App['client'];
+
+export interface DigestSettings {
+  time: string; // HH:MM in the user's time zone
+  timeZone: string; // IANA name from the user's Slack profile
+  query: string;
+  enabled: boolean;
+  lastSentDate?: string; // YYYY-MM-DD in the user's time zone
+}
+
+export const DEFAULT_DIGEST_QUERY = 'is:unread newer_than:1d';
+
+// Most emails summarized in one digest
+const MAX_DIGEST_EMAILS = 25;
+
+// How often the scheduler checks for digests that are due
+const DIGEST_CHECK_INTERVAL_MS = 60 * 1000;
+
+// Key: Slack user ID
+const digestStore = createStore<DigestSettings>('digests');
+
+// Current date and HH:MM in a time zone
+function localDateTime(timeZone: string, now: Date = new Date()): { date: string; time: string } {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(now);
+  const get = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value ?? '';
+  return { date: `${get('year')}-${get('month')}-${get('day')}`, time: `${get('hour')}:${get('minute')}` };
+}
+
+// Accepts 8:30, 08:30 or 17:05; returns HH:MM or null
+export function parseDigestTime(value: string): string | null {
+  const match = value.match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+  const hours = parseInt(match[1]);
+  const minutes = parseInt(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
+
+export async function getDigestSettings(userId: string): Promise<DigestSettings | undefined> {
+  return digestStore.get(userId);
+}
+
+export async function saveDigestSettings(
+  userId: string,
+  time: string,
+  timeZone: string,
+  query: string
+): Promise<DigestSettings> {
+  // If today's time has already passed, the first digest goes out tomorrow
+  const now = localDateTime(timeZone);
+  const settings: DigestSettings = {
+    time,
+    timeZone,
+    query,
+    enabled: true,
+    lastSentDate: now.time >= time ? now.date : undefined,
+  };
+  await digestStore.set(userId, settings);
+  return settings;
+}
+
+export async function setDigestEnabled(userId: string, enabled: boolean): Promise<DigestSettings | undefined> {
+  const settings = await digestStore.get(userId);
+  if (!settings) return undefined;
+  settings.enabled = enabled;
+  await digestStore.set(userId, settings);
+  return settings;
+}
+
+export async function deleteDigestSettings(userId: string): Promise<boolean> {
+  return digestStore.delete(userId);
+}
+
+export function formatDigestSettingsForSlack(settings: DigestSettings): string {
+  return [
+    settings.enabled ? '📰 Daily digest is *on*' : '⏸️ Daily digest is *paused*',
+    `*Time:* ${settings.time} (${settings.timeZone})`,
+    `*Query:* \`${settings.query}\``,
+  ].join('\n');
+}
+
+function formatDigestGroup(title: string, items: DigestItem[], emailsById: Map<string, EmailMessage>): string {
+  const lines = items
+    .filter(item => emailsById.has(item.id))
+    .map((item) => {
+      const email = emailsById.get(item.id)!;
+      return `• *${escapeMrkdwn(email.subject)}* - ${escapeMrkdwn(email.from)}\n    _${escapeMrkdwn(item.summary)}_ · \`${email.id}\``;
+    });
+  return lines.length > 0 ? `*${title} (${lines.length})*\n${lines.join('\n')}` : '';
+}
+
+export async function buildDigestBlocks(settings: DigestSettings): Promise<{ text: string; blocks: KnownBlock[] }> {
+  const emails = await searchEmails(settings.query, MAX_DIGEST_EMAILS);
+  const header: KnownBlock = { type: 'header', text: { type: 'plain_text', text: '📰 Your daily inbox digest' } };
+  const footer: KnownBlock = {
+    type: 'context',
+    elements: [{ type: 'mrkdwn', text: `Query: \`${settings.query}\` · Change or pause with \`/gmail-digest\`` }],
+  };
+
+  if (emails.length === 0) {
+    const text = '📭 Nothing new matched your digest today.';
+    return { text, blocks: [header, ...buildTextBlocks(text), footer] };
+  }
+
+  const summary = await summarizeEmailsForDigest(emails);
+  const emailsById = new Map(emails.map(email => [email.id, email]));
+  const groups = [
+    formatDigestGroup('✉️ Needs reply', summary.needsReply, emailsById),
+    formatDigestGroup('ℹ️ FYI', summary.fyi, emailsById),
+    formatDigestGroup('📰 Newsletters', summary.newsletters, emailsById),
+  ].filter(Boolean);
+
+  const blocks: KnownBlock[] = [header, ...buildTextBlocks(escapeMrkdwn(summary.overview))];
+  for (const group of groups) {
+    blocks.push({ type: 'divider' }, ...buildTextBlocks(group));
+  }
+  blocks.push(footer);
+
+  return { text: `📰 Your daily inbox digest: ${emails.length} emails`, blocks };
+}
+
+export async function sendDigest(client: SlackClient, userId: string, settings: DigestSettings): Promise<void> {
+  const message = await withGmailUser(userId, () => buildDigestBlocks(settings));
+  await client.chat.postMessage({ channel: userId, ...message });
+}
+
+let checking = false;
+
+async function sendDueDigests(client: SlackClient) {
+  // Skip this tick if the previous one is still summarizing
+  if (checking) return;
+  checking = true;
+
+  try {
+    for (const [userId, settings] of await digestStore.entries()) {
+      if (!settings.enabled) continue;
+      // Disconnected accounts keep their settings but get no digest until they reconnect
+      if (!(await hasGmailCredentials(userId))) continue;
+
+      const now = localDateTime(settings.timeZone);
+      if (now.time < settings.time || settings.lastSentDate === now.date) continue;
+
+      // Mark as sent first so a failure is not retried every minute
+      settings.lastSentDate = now.date;
+      await digestStore.set(userId, settings);
+
+      try {
+        await sendDigest(client, userId, settings);
+        logRequest(userId, 'digest', 'success');
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        logRequest(userId, 'digest', 'error', errorMsg);
+      }
+    }
+  } finally {
+    checking = false;
+  }
+}
+
+export function startDigestScheduler(client: SlackClient): void {
+  setInterval(() => {
+    sendDueDigests(client).catch(error => console.error('Digest scheduler error:', error));
+  }, DIGEST_CHECK_INTERVAL_MS);
+}
@@ -0,0 +1,235 @@
+/**
+ * Interactive Block Kit rendering for email lists
+ * Each email gets Read / Archive / Star / Mark read / Trash / Share buttons and a Snooze
+ * menu, and lists with more results get a Show more button
+ */
+
+import { randomUUID } from 'node:crypto';
+import type { KnownBlock, Button, StaticSelect } from '@slack/bolt';
+import type { EmailMessage } from './gmail-client.js';
+import { SNOOZE_PRESETS, type SnoozePreset } from './snooze.js';
+
+export const EMAIL_ACTIONS = {
+  read: 'email_read',
+  archive: 'email_archive',
+  star: 'email_star',
+  unstar: 'email_unstar',
+  markRead: 'email_mark_read',
+  trash: 'email_trash',
+} as const;
+
+export const SHOW_MORE_ACTION_ID = 'email_list_more';
+export const SNOOZE_ACTION_ID = 'email_snooze';
+export const SHARE_ACTION_ID = 'email_share';
+
+// Messages hold at most 50 blocks and each row takes two, so lists are shown a page at a time
+export const MAX_LIST_PAGE_SIZE = 20;
+
+export type EmailRowStatus = 'archived' | 'trashed' | 'snoozed';
+
+// Where the next page of a list comes from; no query means the inbox listing
+export interface EmailListNextPage {
+  query?: string;
+  pageToken: string;
+  pageSize: number;
+  page: number; // 1-based number of the page this token fetches
+}
+
+// A rendered list, kept so button clicks can re-render it in place
+export interface EmailListView {
+  id: string;
+  ownerId: string; // Slack user whose mailbox the list came from
+  title: string;
+  intro?: string; // Text shown above the list, e.g. the assistant's reply
+  emails: EmailMessage[];
+  status: Record<string, EmailRowStatus>;
+  nextPage?: EmailListNextPage;
+  createdAt: number;
+}
+
+// Rendered lists: key = list ID (carried in every button value)
+const emailListViews = new Map<string, EmailListView>();
+
+// Lists older than this can no longer be updated in place
+const LIST_VIEW_TIMEOUT_MS = 60 * 60 * 1000;
+
+function cleanupOldListViews() {
+  const now = Date.now();
+  for (const [id, view] of emailListViews.entries()) {
+    if (now - view.createdAt > LIST_VIEW_TIMEOUT_MS) {
+      emailListViews.delete(id);
+    }
+  }
+}
+
+export function createEmailListView(
+  ownerId: string,
+  title: string,
+  emails: EmailMessage[],
+  intro?: string,
+  nextPage?: EmailListNextPage
+): EmailListView {
+  cleanupOldListViews();
+  const view: EmailListView = {
+    id: randomUUID(),
+    ownerId,
+    title,
+    intro,
+    emails,
+    status: {},
+    nextPage,
+    createdAt: Date.now(),
+  };
+  emailListViews.set(view.id, view);
+  return view;
+}
+
+export function getEmailListView(id: string): EmailListView | undefined {
+  cleanupOldListViews();
+  return emailListViews.get(id);
+}
+
+// Button values carry both the list and the email: `${listId}:${messageId}`
+export function parseEmailActionValue(value: string): { listId: string; messageId: string } {
+  const separator = value.indexOf(':');
+  return { listId: value.substring(0, separator), messageId: value.substring(separator + 1) };
+}
+
+// Snooze options carry the preset as well: `${listId}:${messageId}:${preset}`
+export function parseSnoozeActionValue(value: string): { listId: string; messageId: string; preset: SnoozePreset } {
+  const separator = value.lastIndexOf(':');
+  return {
+    ...parseEmailActionValue(value.substring(0, separator)),
+    preset: value.substring(separator + 1) as SnoozePreset,
+  };
+}
+
+function button(actionId: string, label: string, value: string, style?: 'primary' | 'danger'): Button {
+  return {
+    type: 'button',
+    action_id: actionId,
+    text: { type: 'plain_text', text: label, emoji: true },
+    value,
+    ...(style && { style }),
+  };
+}
+
+function snoozeMenu(value: string): StaticSelect {
+  return {
+    type: 'static_select',
+    action_id: SNOOZE_ACTION_ID,
+    placeholder: { type: 'plain_text', text: '💤 Snooze', emoji: true },
+    options: (Object.entries(SNOOZE_PRESETS) as [SnoozePreset, string][]).map(([preset, label]) => ({
+      text: { type: 'plain_text', text: label },
+      value: `${value}:${preset}`,
+    })),
+  };
+}
+
+const STATUS_TEXT: Record<EmailRowStatus, string> = {
+  archived: '📁 _Archived_',
+  trashed: '🗑️ _Moved to trash_',
+  snoozed: '💤 _Snoozed_',
+};
+
+function buildEmailRowBlocks(view: EmailListView, email: EmailMessage, index: number): KnownBlock[] {
+  const starred = email.labels.includes('STARRED');
+  const unread = email.labels.includes('UNREAD');
+  const value = `${view.id}:${email.id}`;
+
+  const blocks: KnownBlock[] = [
+    {
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: `*${index + 1}. ${escapeMrkdwn(email.subject)}*${starred ? ' ⭐' : ''}${unread ? ' 🔵' : ''}\n${escapeMrkdwn(email.from)} · ${escapeMrkdwn(email.date)}`,
+      },
+    },
+  ];
+
+  const status = view.status[email.id];
+  if (status) {
+    blocks.push({
+      type: 'context',
+      elements: [{ type: 'mrkdwn', text: STATUS_TEXT[status] }],
+    });
+    return blocks;
+  }
+
+  const trashButton = button(EMAIL_ACTIONS.trash, '🗑️ Trash', value, 'danger');
+  trashButton.confirm = {
+    title: { type: 'plain_text', text: 'Move to trash?' },
+    text: { type: 'mrkdwn', text: `*${escapeMrkdwn(email.subject)}* will be moved to trash.` },
+    confirm: { type: 'plain_text', text: 'Trash' },
+    deny: { type: 'plain_text', text: 'Cancel' },
+    style: 'danger',
+  };
+
+  blocks.push({
+    type: 'actions',
+    elements: [
+      button(EMAIL_ACTIONS.read, '📖 Read', value, 'primary'),
+      button(EMAIL_ACTIONS.archive, '📁 Archive', value),
+      starred
+        ? button(EMAIL_ACTIONS.unstar, '☆ Unstar', value)
+        : button(EMAIL_ACTIONS.star, '⭐ Star', value),
+      ...(unread ? [button(EMAIL_ACTIONS.markRead, '✅ Mark read', value)] : []),
+      trashButton,
+      button(SHARE_ACTION_ID, '📤 Share', value),
+      snoozeMenu(value),
+    ],
+  });
+  return blocks;
+}
+
+export function buildEmailListBlocks(view: EmailListView): KnownBlock[] {
+  const blocks: KnownBlock[] = view.intro ? [...buildTextBlocks(view.intro), { type: 'divider' }] : [];
+  blocks.push({ type: 'section', text: { type: 'mrkdwn', text: `${view.title} (${view.emails.length})` } });
+
+  if (view.emails.length === 0) {
+    blocks.push({ type: 'section', text: { type: 'mrkdwn', text: 'No emails found.' } });
+    return blocks;
+  }
+
+  view.emails.forEach((email, i) => {
+    blocks.push(...buildEmailRowBlocks(view, email, i));
+  });
+
+  if (view.nextPage) {
+    blocks.push({
+      type: 'actions',
+      elements: [button(SHOW_MORE_ACTION_ID, '⬇️ Show more', view.id)],
+    });
+  }
+  return blocks;
+}
+
+// Email fields are written by the sender, so mentions (<!channel>, <@U...>) and links must not
+// reach Slack as mrkdwn; Slack only needs these three characters escaped
+export function escapeMrkdwn(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// Section blocks hold at most 3000 characters, so long replies are split on line breaks
+export function buildTextBlocks(text: string): KnownBlock[] {
+  const MAX_SECTION_LENGTH = 3000;
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let length = 0;
+
+  for (const line of text.split('\n')) {
+    const clipped = line.substring(0, MAX_SECTION_LENGTH);
+    if (current.length > 0 && length + 1 + clipped.length > MAX_SECTION_LENGTH) {
+      chunks.push(current.join('\n'));
+      current = [];
+      length = 0;
+    }
+    length += (current.length > 0 ? 1 : 0) + clipped.length;
+    current.push(clipped);
+  }
+  if (current.length > 0) {
+    chunks.push(current.join('\n'));
+  }
+
+  return chunks.filter(chunk => chunk.trim()).map(chunk => ({ type: 'section', text: { type: 'mrkdwn', text: chunk } }));
+}
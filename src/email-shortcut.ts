@@ -0,0 +1,282 @@
+/**
+ * "Email this" message shortcut
+ * Turns a Slack message, or its whole thread as a transcript, into a prefilled compose
+ * modal. Slack mentions are resolved to names, and permalinks and files become links.
+ */
+
+import type { App, ModalView } from '@slack/bolt';
+
+type SlackClient = App['client'];
+
+export const EMAIL_SHORTCUT_ID = 'email_this';
+export const COMPOSE_VIEW_ID = 'gmail_compose';
+export const COMPOSE_SCOPE_ACTION_ID = 'compose_scope';
+
+export type ComposeScope = 'message' | 'thread';
+
+// The Slack message the shortcut was used on
+export interface ComposeSource {
+  channelId: string;
+  channelName?: string;
+  messageTs: string;
+  threadTs?: string; // Set when the message is part of a thread
+}
+
+export interface SlackMessage {
+  ts?: string;
+  user?: string;
+  username?: string;
+  bot_profile?: { name?: string };
+  text?: string;
+  files?: { name?: string; title?: string; permalink?: string }[];
+}
+
+// plain_text_input holds at most 3000 characters
+const MAX_BODY_LENGTH = 3000;
+
+// Most thread replies included in a transcript
+const MAX_THREAD_MESSAGES = 200;
+
+async function resolveUserNames(client: SlackClient, userIds: Iterable<string>): Promise<Map<string, string>> {
+  const names = new Map<string, string>();
+  for (const userId of new Set(userIds)) {
+    try {
+      const info = await client.users.info({ user: userId });
+      names.set(userId, info.user?.profile?.display_name || info.user?.real_name || info.user?.name || userId);
+    } catch {
+      names.set(userId, userId);
+    }
+  }
+  return names;
+}
+
+// Slack mrkdwn to plain text: mentions become names, links become "label (url)"
+function slackToPlainText(text: string, names: Map<string, string>): string {
+  return text
+    .replace(/<@(\w+)(?:\|[^>]*)?>/g, (_, id: string) => `@${names.get(id) ?? id}`)
+    .replace(/<#\w+\|([^>]*)>/g, '#$1')
+    .replace(/<!subteam\^\w+(?:\|([^>]*))?>/g, (_, label?: string) => label ?? '@group')
+    .replace(/<!(\w+)(?:\|[^>]*)?>/g, '@$1')
+    .replace(/<mailto:[^|>]+\|([^>]+)>/g, '$1')
+    .replace(/<([^|>]+)\|([^>]+)>/g, (_, url: string, label: string) => (label === url ? url : `${label} (${url})`))
+    .replace(/<([^>]+)>/g, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+function mentionedUserIds(messages: SlackMessage[]): string[] {
+  const ids: string[] = [];
+  for (const message of messages) {
+    if (message.user) ids.push(message.user);
+    for (const match of (message.text ?? '').matchAll(/<@(\w+)/g)) {
+      ids.push(match[1]);
+    }
+  }
+  return ids;
+}
+
+function formatSlackTime(ts: string, timeZone: string): string {
+  return new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).format(new Date(parseFloat(ts) * 1000));
+}
+
+function formatFiles(message: SlackMessage): string[] {
+  return (message.files ?? [])
+    .filter(file => file.permalink)
+    .map(file => `  📎 ${file.title || file.name || 'File'}: ${file.permalink}`);
+}
+
+function authorName(message: SlackMessage, names: Map<string, string>): string {
+  return (message.user && names.get(message.user)) || message.bot_profile?.name || message.username || 'Unknown';
+}
+
+async function fetchMessages(
+  client: SlackClient,
+  source: ComposeSource,
+  scope: ComposeScope,
+  shortcutMessage?: SlackMessage
+): Promise<SlackMessage[]> {
+  if (scope === 'message' && shortcutMessage) {
+    return [shortcutMessage];
+  }
+  if (scope === 'thread' && source.threadTs) {
+    const replies = await client.conversations.replies({
+      channel: source.channelId,
+      ts: source.threadTs,
+      limit: MAX_THREAD_MESSAGES,
+    });
+    return (replies.messages ?? []) as SlackMessage[];
+  }
+
+  const history = await client.conversations.history({
+    channel: source.channelId,
+    latest: source.messageTs,
+    inclusive: true,
+    limit: 1,
+  });
+  const message = (history.messages ?? [])[0] as SlackMessage | undefined;
+  if (message?.ts === source.messageTs) return [message];
+
+  // Replies are not in channel history, so look the message up in its thread
+  if (source.threadTs) {
+    const replies = await client.conversations.replies({
+      channel: source.channelId,
+      ts: source.messageTs,
+      latest: source.messageTs,
+      inclusive: true,
+      limit: 1,
+    });
+    return ((replies.messages ?? []) as SlackMessage[]).filter(m => m.ts === source.messageTs);
+  }
+  return [];
+}
+
+// Subject and body for the compose modal; the shortcut payload's message saves a lookup when given
+export async function buildComposeDraft(
+  client: SlackClient,
+  source: ComposeSource,
+  scope: ComposeScope,
+  timeZone: string,
+  shortcutMessage?: SlackMessage
+): Promise<{ subject: string; body: string }> {
+  const messages = await fetchMessages(client, source, scope, shortcutMessage);
+  const names = await resolveUserNames(client, mentionedUserIds(messages));
+
+  const permalink = await client.chat.getPermalink({
+    channel: source.channelId,
+    message_ts: scope === 'thread' && source.threadTs ? source.threadTs : source.messageTs,
+  });
+  const where = source.channelName ? ` in #${source.channelName}` : '';
+  const footer = permalink.permalink ? `\n\n---\nView in Slack: ${permalink.permalink}` : '';
+
+  let subject: string;
+  let text: string;
+  if (scope === 'thread') {
+    subject = `Slack thread${where}`;
+    text = messages.map(message => [
+      `[${formatSlackTime(message.ts ?? '0', timeZone)}] ${authorName(message, names)}:`,
+      slackToPlainText(message.text ?? '', names),
+      ...formatFiles(message),
+    ].join('\n')).join('\n\n');
+  } else {
+    const message = messages[0] ?? {};
+    subject = `Slack message from ${authorName(message, names)}${where}`;
+    text = [slackToPlainText(message.text ?? '', names), ...formatFiles(message)].join('\n');
+  }
+
+  // Keep the permalink even when the transcript has to be cut short
+  const room = MAX_BODY_LENGTH - footer.length;
+  const body = text.length > room
+    ? text.substring(0, room - 40) + '\n\n[... truncated - see the full thread in Slack]'
+    : text;
+  return { subject, body: body + footer };
+}
+
+// Shown while the draft is being prepared, since the modal must open within 3 seconds
+export function buildComposeLoadingModal(): ModalView {
+  return {
+    type: 'modal',
+    title: { type: 'plain_text', text: 'Email this' },
+    close: { type: 'plain_text', text: 'Cancel' },
+    blocks: [{ type: 'section', text: { type: 'mrkdwn', text: '⏳ Preparing your email...' } }],
+  };
+}
+
+export function buildComposeModal(
+  source: ComposeSource,
+  scope: ComposeScope,
+  draft: { subject: string; body: string }
+): ModalView {
+  const scopeOption = (value: ComposeScope, text: string) => ({ text: { type: 'plain_text' as const, text }, value });
+  const scopeOptions = [scopeOption('message', 'Just this message'), scopeOption('thread', 'The whole thread')];
+
+  return {
+    type: 'modal',
+    callback_id: COMPOSE_VIEW_ID,
+    private_metadata: JSON.stringify(source),
+    title: { type: 'plain_text', text: 'Email this' },
+    submit: { type: 'plain_text', text: 'Send' },
+    close: { type: 'plain_text', text: 'Cancel' },
+    blocks: [
+      {
+        type: 'input',
+        block_id: 'compose_to',
+        label: { type: 'plain_text', text: 'To' },
+        hint: { type: 'plain_text', text: 'Separate several addresses with commas' },
+        element: { type: 'plain_text_input', action_id: 'value', placeholder: { type: 'plain_text', text: 'name@example.com' } },
+      },
+      {
+        type: 'input',
+        block_id: 'compose_cc',
+        optional: true,
+        label: { type: 'plain_text', text: 'Cc' },
+        element: { type: 'plain_text_input', action_id: 'value' },
+      },
+      ...(source.threadTs ? [{
+        type: 'input' as const,
+        block_id: 'compose_scope',
+        dispatch_action: true,
+        label: { type: 'plain_text' as const, text: 'Include' },
+        element: {
+          type: 'radio_buttons' as const,
+          action_id: COMPOSE_SCOPE_ACTION_ID,
+          options: scopeOptions,
+          initial_option: scopeOptions.find(o => o.value === scope),
+        },
+      }] : []),
+      {
+        type: 'input',
+        block_id: `compose_subject_${scope}`,
+        label: { type: 'plain_text', text: 'Subject' },
+        element: { type: 'plain_text_input', action_id: 'value', initial_value: draft.subject },
+      },
+      {
+        // The block ID changes with the scope so Slack shows the new prefill instead of the old text
+        type: 'input',
+        block_id: `compose_body_${scope}`,
+        label: { type: 'plain_text', text: 'Message' },
+        element: {
+          type: 'plain_text_input',
+          action_id: 'value',
+          multiline: true,
+          max_length: MAX_BODY_LENGTH,
+          initial_value: draft.body,
+        },
+      },
+    ],
+  };
+}
+
+type ModalStateValues = Record<string, Record<string, {
+  value?: string | null;
+  selected_option?: { value: string } | null;
+}>>;
+
+// Split a comma or space separated list of addresses; null if any entry is not an address
+export function parseRecipients(text: string | null | undefined): string[] | null {
+  const recipients = (text ?? '').split(/[,;\s]+/).map(r => r.trim()).filter(Boolean);
+  return recipients.every(r => /^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(r)) ? recipients : null;
+}
+
+export function readComposeScope(values: ModalStateValues): ComposeScope {
+  return values.compose_scope?.[COMPOSE_SCOPE_ACTION_ID]?.selected_option?.value === 'thread' ? 'thread' : 'message';
+}
+
+// The submitted fields; subject and body blocks are keyed by the scope they were prefilled for
+export function readComposeForm(values: ModalStateValues): { to?: string | null; cc?: string | null; subject: string; body: string } {
+  const scope = readComposeScope(values);
+  return {
+    to: values.compose_to?.value?.value,
+    cc: values.compose_cc?.value?.value,
+    subject: values[`compose_subject_${scope}`]?.value?.value?.trim() ?? '',
+    body: values[`compose_body_${scope}`]?.value?.value ?? '',
+  };
+}
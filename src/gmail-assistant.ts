@@ -6,76 +6,252 @@
 
 import Anthropic from '@anthropic-ai/sdk';
 import {
-  listEmails,
-  searchEmails,
+  listEmailPage,
+  searchEmailPage,
+  collectMessageIds,
+  getMessageLabels,
+  BATCH_MAX_MESSAGES,
   getEmail,
+  getThreadForId,
+  listAttachments,
+  downloadAttachment,
   sendEmail,
+  replyToEmail,
+  replyAllToEmail,
+  getReplyRecipients,
+  forwardEmail,
+  listDrafts,
+  getDraft,
+  createDraft,
+  updateDraft,
+  deleteDraft,
+  sendDraft,
   markAsRead,
+  markAsUnread,
   trashEmail,
+  untrashEmail,
+  deleteEmailPermanently,
   createLabel,
+  updateLabel,
   deleteLabel,
+  findLabel,
+  LABEL_COLORS,
   starEmail,
   unstarEmail,
   archiveEmail,
   batchModifyEmails,
   getLabels,
+  getLabel,
+  getUnreadCounts,
+  formatUnreadCountsForSlack,
   getUnsubscribeInfo,
   findMarketingEmails,
+  getVacationSettings,
+  setVacationSettings,
+  parseDateInput,
   formatEmailForSlack,
   formatEmailListForSlack,
+  formatThreadForSlack,
+  formatAttachmentListForSlack,
+  formatBytes,
+  formatDraftForSlack,
+  formatDraftListForSlack,
+  formatVacationForSlack,
+  GmailApiError,
+  type BatchModifyResult,
+  type EmailMessage,
+  type EmailPage,
+  type GmailLabel,
+  type ReplyRecipients,
 } from './gmail-client.js';
+import { checkAttachmentPolicy } from './attachments.js';
+import { withAuditContext } from './audit.js';
+import { countUndoMessages, inverseLabelChanges, type UndoableAction, type UndoChange } from './undo.js';
+import { createStore } from './store.js';
 
 const anthropic = new Anthropic();
 
+const CLAUDE_MODEL = 'claude-sonnet-4-20250514';
+
 // Conversation memory storage
-// Key: Slack user ID, Value: { messages, lastActivity, context }
+// Key: conversationKey(user, scope), Value: { messages, lastActivity, context }
 interface ConversationState {
-  messages: Anthropic.MessageParam[];
+  messages: Anthropic.MessageParam[]; // Recent requests with their tool calls, results compacted
   lastActivity: number;
-  context: string; // Summary of what we're working on
+  context: string; // Claude-written summary of the requests that no longer fit in messages
 }
 
-const conversationMemory = new Map<string, ConversationState>();
+const conversationStore = createStore<ConversationState>('conversations');
+
+// Where a conversation happens: the user's /gmail replies, or one thread session.
+// Each has its own memory, so a user can run sessions in several channels at once.
+export type ConversationScope = 'slash' | { channelId: string; threadTs: string };
+
+function conversationKey(userId: string, scope: ConversationScope): string {
+  return scope === 'slash' ? `${userId}:slash` : `${userId}:${scope.channelId}:${scope.threadTs}`;
+}
 
 // Memory timeout: 30 minutes of inactivity clears conversation
 const MEMORY_TIMEOUT_MS = 30 * 60 * 1000;
 
-// Max messages to keep in history (to avoid token limits)
+// Most emails a single search or list tool call returns; more are fetched with pageToken
+const MAX_TOOL_RESULTS = 20;
+
+// Max messages to keep in history (to avoid token limits); past this, the oldest requests
+// are folded into the running summary until at most HISTORY_KEEP_MESSAGES remain
 const MAX_HISTORY_MESSAGES = 20;
+const HISTORY_KEEP_MESSAGES = 10;
+
+// Longest tool result kept in history; email lists are kept as an ID/subject index instead
+const MAX_STORED_RESULT_LENGTH = 1000;
+
+// Limits on one request's tool-use loop: rounds of tool calls, and wall-clock time
+// (time spent waiting for the user to confirm an action does not count)
+const MAX_AGENT_STEPS = parseInt(process.env.ASSISTANT_MAX_STEPS || '') || 10;
+const AGENT_DEADLINE_MS = parseInt(process.env.ASSISTANT_DEADLINE_MS || '') || 90 * 1000;
+
+// Time the partial answer may take once a limit is hit, on top of AGENT_DEADLINE_MS
+const WRAP_UP_TIMEOUT_MS = 20 * 1000;
+
+// Time folding old turns into the summary may add before the answer is returned
+const SUMMARY_TIMEOUT_MS = 15 * 1000;
 
 // Clean up old conversations periodically
-function cleanupOldConversations() {
+async function cleanupOldConversations() {
   const now = Date.now();
-  for (const [userId, state] of conversationMemory.entries()) {
+  for (const [key, state] of await conversationStore.entries()) {
     if (now - state.lastActivity > MEMORY_TIMEOUT_MS) {
-      conversationMemory.delete(userId);
+      await conversationStore.delete(key);
     }
   }
 }
 
-// Get or create conversation state for a user
-function getConversationState(userId: string): ConversationState {
-  cleanupOldConversations();
+// Get or create the state of one conversation
+async function getConversationState(key: string): Promise<ConversationState> {
+  await cleanupOldConversations();
 
-  if (!conversationMemory.has(userId)) {
-    conversationMemory.set(userId, {
-      messages: [],
-      lastActivity: Date.now(),
-      context: '',
-    });
-  }
-
-  const state = conversationMemory.get(userId)!;
+  const state = (await conversationStore.get(key)) ?? {
+    messages: [],
+    lastActivity: Date.now(),
+    context: '',
+  };
   state.lastActivity = Date.now();
   return state;
 }
 
-// Clear conversation for a user
-export function clearConversation(userId: string): void {
-  conversationMemory.delete(userId);
+// Clear one of a user's conversations
+export async function clearConversation(userId: string, scope: ConversationScope): Promise<void> {
+  await conversationStore.delete(conversationKey(userId, scope));
+}
+
+// Clear every conversation a user has, e.g. when they disconnect Gmail
+export async function clearAllConversations(userId: string): Promise<void> {
+  for (const [key] of await conversationStore.entries()) {
+    if (key.startsWith(`${userId}:`)) {
+      await conversationStore.delete(key);
+    }
+  }
+}
+
+// Tools that send mail (including auto-replies) or destroy/modify data in bulk need a human to approve them
+const TOOLS_REQUIRING_CONFIRMATION = new Set([
+  'send_email',
+  'reply_to_email',
+  'reply_all_to_email',
+  'forward_email',
+  'send_draft',
+  'set_vacation_settings',
+  'delete_draft',
+  'trash_email',
+  'delete_email_permanently',
+  'delete_label',
+  'batch_star_emails',
+  'batch_apply_label',
+  'batch_remove_label',
+  'batch_archive_emails',
+  'batch_mark_read',
+  'batch_trash_emails',
+]);
+
+// Tools without side effects; several of these in one turn run at the same time
+const READ_ONLY_TOOLS = new Set([
+  'search_emails',
+  'list_recent_emails',
+  'get_email_details',
+  'get_thread',
+  'list_attachments',
+  'list_drafts',
+  'get_draft',
+  'get_unread_count',
+  'get_labels',
+  'list_snoozed_emails',
+  'find_marketing_emails',
+  'get_unsubscribe_info',
+  'get_vacation_settings',
+]);
+
+// Called before a tool in TOOLS_REQUIRING_CONFIRMATION runs; resolves true only if approved
+export type ToolConfirmationHandler = (
+  toolName: string,
+  input: Record<string, unknown>
+) => Promise<boolean>;
+
+// Uploads a file to wherever the user is talking to the bot (their DM or the session thread)
+export type FileUploadHandler = (file: {
+  filename: string;
+  mimeType: string;
+  data: Buffer;
+}) => Promise<void>;
+
+// Receives each email list a tool fetches, so the reply can show it with action buttons
+export type EmailListHandler = (title: string, emails: EmailMessage[]) => void;
+
+// Snoozes an email for the requesting user (times are in their Slack time zone); returns the tool result
+export type SnoozeHandler = (messageId: string, until: string) => Promise<string>;
+
+// Lists the requesting user's snoozed emails as text
+export type SnoozeListHandler = () => Promise<string>;
+
+// Records a reversible action with its inverse so the user can undo it
+export type UndoRecorder = (action: Pick<UndoableAction, 'description' | 'changes'>) => Promise<void>;
+
+// What the assistant is doing while a request runs; text is the reply so far in the current turn
+export type AssistantProgressEvent =
+  | { type: 'tool_started'; toolName: string }
+  | { type: 'tool_finished'; toolName: string; summary: string; isError: boolean }
+  | { type: 'text'; text: string };
+
+export type ProgressHandler = (event: AssistantProgressEvent) => void;
+
+// Slack-side callbacks available to tools while a request is processed
+export interface AssistantHooks {
+  confirmToolCall?: ToolConfirmationHandler;
+  uploadFile?: FileUploadHandler;
+  onEmailList?: EmailListHandler;
+  snoozeEmail?: SnoozeHandler;
+  listSnoozedEmails?: SnoozeListHandler;
+  recordUndo?: UndoRecorder;
+  onProgress?: ProgressHandler;
 }
 
 // Tool definitions for Claude
+// Shared input for batch tools: a query or explicit message IDs
+function batchTargetProperties(verb: string) {
+  return {
+    query: {
+      type: 'string',
+      description: `Gmail search query; every matching email is ${verb}`,
+    },
+    messageIds: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Array of email message IDs (instead of a query)',
+    },
+  };
+}
+
+const LABEL_COLOR_NAMES = Object.keys(LABEL_COLORS);
+
 const tools: Anthropic.Tool[] = [
   {
     name: 'search_emails',
@@ -131,7 +307,11 @@ Combine operators: "from:boss@company.com is:unread has:attachment after:2024/01
         },
         maxResults: {
           type: 'number',
-          description: 'Maximum number of results (default: 5, max: 10)',
+          description: `Maximum number of results (default: 5, max: ${MAX_TOOL_RESULTS})`,
+        },
+        pageToken: {
+          type: 'string',
+          description: 'Token from a previous search result to fetch the next page',
         },
       },
       required: ['query'],
@@ -145,7 +325,11 @@ Combine operators: "from:boss@company.com is:unread has:attachment after:2024/01
       properties: {
         count: {
           type: 'number',
-          description: 'Number of emails to retrieve (default: 5, max: 10)',
+          description: `Number of emails to retrieve (default: 5, max: ${MAX_TOOL_RESULTS})`,
+        },
+        pageToken: {
+          type: 'string',
+          description: 'Token from a previous result to fetch the next page',
         },
       },
     },
@@ -164,9 +348,163 @@ Combine operators: "from:boss@company.com is:unread has:attachment after:2024/01
       required: ['messageId'],
     },
   },
+  {
+    name: 'get_thread',
+    description: 'Get every message in an email conversation thread, in order. Use this to summarize a conversation or answer questions like "what did we decide in this thread".',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        id: {
+          type: 'string',
+          description: 'The thread ID, or the ID of any email in the thread',
+        },
+      },
+      required: ['id'],
+    },
+  },
+  {
+    name: 'list_attachments',
+    description: 'List the attachments of an email (filename, type, size, and attachment ID)',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        messageId: {
+          type: 'string',
+          description: 'The email message ID',
+        },
+      },
+      required: ['messageId'],
+    },
+  },
+  {
+    name: 'download_attachment',
+    description: 'Download an email attachment and upload it to the user in Slack. Only documents and images under the size limit can be uploaded.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        messageId: {
+          type: 'string',
+          description: 'The email message ID',
+        },
+        attachmentId: {
+          type: 'string',
+          description: 'The attachment ID from list_attachments',
+        },
+      },
+      required: ['messageId', 'attachmentId'],
+    },
+  },
   {
     name: 'send_email',
-    description: 'Compose and send an email. Use this when the user wants to send, compose, or draft an email.',
+    description: 'Compose and send an email immediately. Use this only when the user clearly wants the email sent now. If they want to draft, prepare, or review an email first, use create_draft instead.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        to: {
+          type: 'string',
+          description: 'Recipient email address',
+        },
+        subject: {
+          type: 'string',
+          description: 'Email subject line',
+        },
+        body: {
+          type: 'string',
+          description: 'Email body content',
+        },
+      },
+      required: ['to', 'subject', 'body'],
+    },
+  },
+  {
+    name: 'reply_to_email',
+    description: 'Reply to the sender of an existing email. The reply stays in the same Gmail conversation and quotes the original. Use this instead of send_email when the user wants to respond to an email you have listed or read.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        messageId: {
+          type: 'string',
+          description: 'The ID of the email being replied to',
+        },
+        body: {
+          type: 'string',
+          description: 'Reply text (the original message is quoted automatically)',
+        },
+      },
+      required: ['messageId', 'body'],
+    },
+  },
+  {
+    name: 'reply_all_to_email',
+    description: 'Reply to the sender and all other recipients (To and Cc) of an existing email, keeping the same Gmail conversation',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        messageId: {
+          type: 'string',
+          description: 'The ID of the email being replied to',
+        },
+        body: {
+          type: 'string',
+          description: 'Reply text (the original message is quoted automatically)',
+        },
+      },
+      required: ['messageId', 'body'],
+    },
+  },
+  {
+    name: 'forward_email',
+    description: 'Forward an existing email to one or more recipients, including the original message',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        messageId: {
+          type: 'string',
+          description: 'The ID of the email to forward',
+        },
+        to: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Recipient email addresses',
+        },
+        note: {
+          type: 'string',
+          description: 'Optional message to include above the forwarded email',
+        },
+      },
+      required: ['messageId', 'to'],
+    },
+  },
+  {
+    name: 'list_drafts',
+    description: 'List saved email drafts',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        maxResults: {
+          type: 'number',
+          description: 'Maximum number of drafts to list (default: 10)',
+        },
+      },
+    },
+  },
+  {
+    name: 'get_draft',
+    description: 'Get the full content of a draft by its draft ID',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        draftId: {
+          type: 'string',
+          description: 'The draft ID',
+        },
+      },
+      required: ['draftId'],
+    },
+  },
+  {
+    name: 'create_draft',
+    description: 'Save an email as a draft without sending it. Use this when the user wants to draft, prepare, or review an email before it goes out.',
     input_schema: {
       type: 'object' as const,
       properties: {
@@ -186,6 +524,60 @@ Combine operators: "from:boss@company.com is:unread has:attachment after:2024/01
       required: ['to', 'subject', 'body'],
     },
   },
+  {
+    name: 'update_draft',
+    description: 'Update an existing draft. Only the fields provided are changed.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        draftId: {
+          type: 'string',
+          description: 'The draft ID to update',
+        },
+        to: {
+          type: 'string',
+          description: 'New recipient email address',
+        },
+        subject: {
+          type: 'string',
+          description: 'New subject line',
+        },
+        body: {
+          type: 'string',
+          description: 'New body content',
+        },
+      },
+      required: ['draftId'],
+    },
+  },
+  {
+    name: 'delete_draft',
+    description: 'Delete a draft',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        draftId: {
+          type: 'string',
+          description: 'The draft ID to delete',
+        },
+      },
+      required: ['draftId'],
+    },
+  },
+  {
+    name: 'send_draft',
+    description: 'Send an existing draft. Only use this once the user has reviewed the draft and asked for it to be sent.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        draftId: {
+          type: 'string',
+          description: 'The draft ID to send',
+        },
+      },
+      required: ['draftId'],
+    },
+  },
   {
     name: 'mark_as_read',
     description: 'Mark an email as read',
@@ -200,6 +592,20 @@ Combine operators: "from:boss@company.com is:unread has:attachment after:2024/01
       required: ['messageId'],
     },
   },
+  {
+    name: 'mark_as_unread',
+    description: 'Mark an email as unread',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        messageId: {
+          type: 'string',
+          description: 'The email message ID to mark as unread',
+        },
+      },
+      required: ['messageId'],
+    },
+  },
   {
     name: 'trash_email',
     description: 'Move an email to trash',
@@ -214,6 +620,47 @@ Combine operators: "from:boss@company.com is:unread has:attachment after:2024/01
       required: ['messageId'],
     },
   },
+  {
+    name: 'untrash_email',
+    description: 'Restore an email from the trash. Find trashed emails with search_emails and "in:trash".',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        messageId: {
+          type: 'string',
+          description: 'The email message ID to restore',
+        },
+      },
+      required: ['messageId'],
+    },
+  },
+  {
+    name: 'delete_email_permanently',
+    description: 'Permanently delete an email, skipping the trash. This cannot be undone - only use it when the user explicitly asks to delete forever; otherwise use trash_email.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        messageId: {
+          type: 'string',
+          description: 'The email message ID to delete permanently',
+        },
+      },
+      required: ['messageId'],
+    },
+  },
+  {
+    name: 'get_unread_count',
+    description: 'Count unread emails in the inbox and under each label, or under one label',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        label: {
+          type: 'string',
+          description: 'Only count this label (name or ID, e.g. "Receipts" or INBOX)',
+        },
+      },
+    },
+  },
   {
     name: 'create_label',
     description: 'Create a new Gmail label for organizing emails',
@@ -222,29 +669,57 @@ Combine operators: "from:boss@company.com is:unread has:attachment after:2024/01
       properties: {
         name: {
           type: 'string',
-          description: 'The name for the new label',
+          description: 'The name for the new label (use "Parent/Child" to nest it)',
+        },
+        color: {
+          type: 'string',
+          enum: LABEL_COLOR_NAMES,
+          description: 'Optional label color',
         },
       },
       required: ['name'],
     },
   },
+  {
+    name: 'update_label',
+    description: 'Rename a Gmail label and/or change its color',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        label: {
+          type: 'string',
+          description: 'The current name or ID of the label',
+        },
+        newName: {
+          type: 'string',
+          description: 'New name for the label',
+        },
+        color: {
+          type: 'string',
+          enum: LABEL_COLOR_NAMES,
+          description: 'New label color',
+        },
+      },
+      required: ['label'],
+    },
+  },
   {
     name: 'delete_label',
-    description: 'Delete a Gmail label',
+    description: 'Delete a Gmail label (emails keep existing, they just lose the label)',
     input_schema: {
       type: 'object' as const,
       properties: {
-        labelId: {
+        label: {
           type: 'string',
-          description: 'The ID of the label to delete',
+          description: 'The name or ID of the label to delete',
         },
       },
-      required: ['labelId'],
+      required: ['label'],
     },
   },
   {
     name: 'get_labels',
-    description: 'Get all Gmail labels. Use this to find label IDs for applying labels to emails.',
+    description: 'Get all Gmail labels. Other label tools accept label names directly, so only use this when the user wants to see their labels.',
     input_schema: {
       type: 'object' as const,
       properties: {},
@@ -293,37 +768,95 @@ Combine operators: "from:boss@company.com is:unread has:attachment after:2024/01
     },
   },
   {
-    name: 'batch_star_emails',
-    description: 'Star multiple emails at once. Use this when the user wants to star all emails from a sender or matching a search.',
+    name: 'snooze_email',
+    description: 'Snooze an email: archive it now and bring it back to the inbox as unread at a chosen time, with a Slack reminder. Times are in the user\'s own time zone.',
     input_schema: {
       type: 'object' as const,
       properties: {
-        messageIds: {
-          type: 'array',
-          items: { type: 'string' },
-          description: 'Array of email message IDs to star',
+        messageId: {
+          type: 'string',
+          description: 'The email message ID to snooze',
+        },
+        until: {
+          type: 'string',
+          description: 'When to bring it back: "later_today" (in 3 hours), "tomorrow" (8:00), "next_week" (Monday 8:00), or a local date and time "YYYY-MM-DD HH:MM"',
         },
       },
-      required: ['messageIds'],
+      required: ['messageId', 'until'],
+    },
+  },
+  {
+    name: 'list_snoozed_emails',
+    description: 'List emails the user snoozed with this bot and when each one comes back',
+    input_schema: {
+      type: 'object' as const,
+      properties: {},
+    },
+  },
+  {
+    name: 'batch_star_emails',
+    description: `Star multiple emails at once. Pass a Gmail query to star every matching email (up to ${BATCH_MAX_MESSAGES}), or specific message IDs. Use this when the user wants to star all emails from a sender or matching a search.`,
+    input_schema: {
+      type: 'object' as const,
+      properties: batchTargetProperties('starred'),
     },
   },
   {
     name: 'batch_apply_label',
-    description: 'Apply a label to multiple emails at once',
+    description: `Apply a label to one or more emails. Pass a Gmail query to label every matching email (up to ${BATCH_MAX_MESSAGES}), or specific message IDs. If the label does not exist, the result says so - ask the user before creating it.`,
     input_schema: {
       type: 'object' as const,
       properties: {
-        messageIds: {
-          type: 'array',
-          items: { type: 'string' },
-          description: 'Array of email message IDs',
+        ...batchTargetProperties('labeled'),
+        label: {
+          type: 'string',
+          description: 'The label name or ID to apply',
+        },
+        createIfMissing: {
+          type: 'boolean',
+          description: 'Create the label if it does not exist - only set this after the user agreed',
         },
-        labelId: {
+      },
+      required: ['label'],
+    },
+  },
+  {
+    name: 'batch_remove_label',
+    description: `Remove a label from one or more emails. Pass a Gmail query (up to ${BATCH_MAX_MESSAGES} matches) or specific message IDs.`,
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        ...batchTargetProperties('unlabeled'),
+        label: {
           type: 'string',
-          description: 'The label ID to apply',
+          description: 'The label name or ID to remove',
         },
       },
-      required: ['messageIds', 'labelId'],
+      required: ['label'],
+    },
+  },
+  {
+    name: 'batch_archive_emails',
+    description: `Archive multiple emails at once. Pass a Gmail query (up to ${BATCH_MAX_MESSAGES} matches) or specific message IDs.`,
+    input_schema: {
+      type: 'object' as const,
+      properties: batchTargetProperties('archived'),
+    },
+  },
+  {
+    name: 'batch_mark_read',
+    description: `Mark multiple emails as read at once. Pass a Gmail query (up to ${BATCH_MAX_MESSAGES} matches) or specific message IDs.`,
+    input_schema: {
+      type: 'object' as const,
+      properties: batchTargetProperties('marked read'),
+    },
+  },
+  {
+    name: 'batch_trash_emails',
+    description: `Move multiple emails to trash at once. Pass a Gmail query (up to ${BATCH_MAX_MESSAGES} matches) or specific message IDs.`,
+    input_schema: {
+      type: 'object' as const,
+      properties: batchTargetProperties('trashed'),
     },
   },
   {
@@ -353,31 +886,143 @@ Combine operators: "from:boss@company.com is:unread has:attachment after:2024/01
       required: ['messageId'],
     },
   },
+  {
+    name: 'get_vacation_settings',
+    description: 'Get the current vacation responder (out-of-office auto-reply) settings',
+    input_schema: {
+      type: 'object' as const,
+      properties: {},
+    },
+  },
+  {
+    name: 'set_vacation_settings',
+    description: 'Turn the vacation responder (out-of-office auto-reply) on or off, optionally with a date range and message. Fields not provided keep their current value.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        enabled: {
+          type: 'boolean',
+          description: 'Whether the auto-reply is on',
+        },
+        subject: {
+          type: 'string',
+          description: 'Auto-reply subject line',
+        },
+        message: {
+          type: 'string',
+          description: 'Auto-reply message body',
+        },
+        startDate: {
+          type: 'string',
+          description: 'First day of the auto-reply (YYYY-MM-DD)',
+        },
+        endDate: {
+          type: 'string',
+          description: 'Last day of the auto-reply (YYYY-MM-DD)',
+        },
+        restrictToContacts: {
+          type: 'boolean',
+          description: 'Only send the auto-reply to people in the user\'s contacts',
+        },
+      },
+      required: ['enabled'],
+    },
+  },
 ];
 
+function formatEmailPage(page: EmailPage): string {
+  const list = formatEmailListForSlack(page.emails);
+  return page.nextPageToken
+    ? `${list}\n\nMore results available - pass pageToken "${page.nextPageToken}" to get the next page.`
+    : list;
+}
+
+// Batch tools act on explicit IDs or on every email matching a query (up to BATCH_MAX_MESSAGES)
+// The targets' current labels come along, so undo can record exactly what the change alters
+async function resolveBatchTarget(
+  input: Record<string, unknown>
+): Promise<{ messageIds: string[]; labelsById: Map<string, string[]>; limitReached: boolean } | string> {
+  const query = input.query as string | undefined;
+  if (query) {
+    const target = await collectMessageIds(query);
+    return target.messageIds.length > 0 ? target : `No emails found matching: ${query}`;
+  }
+  const messageIds = (input.messageIds as string[] | undefined) ?? [];
+  return messageIds.length > 0
+    ? { messageIds, labelsById: await getMessageLabels(messageIds), limitReached: false }
+    : '❌ Provide a Gmail query or at least one message ID';
+}
+
+// Only actions that changed something can be undone
+async function recordUndo(hooks: AssistantHooks, description: string, changes: UndoChange[]): Promise<void> {
+  if (changes.length > 0) {
+    await hooks.recordUndo?.({ description, changes });
+  }
+}
+
+// Label tools take a name or an ID. When a label is missing, tools that can create it
+// offer to do so, and only create it once the user agreed.
+async function resolveLabelInput(
+  input: Record<string, unknown>,
+  ifMissing: 'fail' | 'offer' | 'create' = 'fail'
+): Promise<GmailLabel | string> {
+  const wanted = ((input.label as string | undefined) ?? '').trim();
+  if (!wanted) {
+    return '❌ Provide a label name or ID';
+  }
+  const label = await findLabel(wanted);
+  if (label) {
+    return label;
+  }
+  if (ifMissing === 'fail') {
+    return `Label not found: ${wanted}`;
+  }
+  if (ifMissing === 'offer') {
+    return `Label "${wanted}" doesn't exist. Ask the user whether to create it; if they agree, call this tool again with createIfMissing set to true.`;
+  }
+  const created = await createLabel(wanted);
+  return created ? { ...created, type: 'user' } : `❌ Failed to create label "${wanted}"`;
+}
+
+// Chunks sent before a failure stay applied, so say which part didn't happen
+function batchFailureNote(result: BatchModifyResult): string {
+  return result.failed.length > 0
+    ? `\n⚠️ ${result.failed.length} emails were not changed: ${result.error || 'Unknown error'}`
+    : '';
+}
+
+function batchLimitNote(target: { limitReached: boolean }): string {
+  return target.limitReached
+    ? ` (stopped at the safety limit of ${BATCH_MAX_MESSAGES}; more emails may match)`
+    : '';
+}
+
 // Execute a tool call
 async function executeTool(
   name: string,
-  input: Record<string, unknown>
+  input: Record<string, unknown>,
+  hooks: AssistantHooks = {}
 ): Promise<string> {
   switch (name) {
     case 'search_emails': {
       const query = input.query as string;
-      const maxResults = Math.min((input.maxResults as number) || 5, 10);
-      const emails = await searchEmails(query, maxResults);
-      if (emails.length === 0) {
+      const maxResults = Math.min((input.maxResults as number) || 5, MAX_TOOL_RESULTS);
+      const page = await searchEmailPage(query, maxResults, input.pageToken as string | undefined);
+      if (page.emails.length === 0) {
         return 'No emails found matching your search.';
       }
-      return formatEmailListForSlack(emails);
+      hooks.onEmailList?.(`🔍 *Search Results for "${query}"*`, page.emails);
+      return formatEmailPage(page);
     }
 
     case 'list_recent_emails': {
-      const count = Math.min((input.count as number) || 5, 10);
-      const emails = await listEmails(count);
-      if (emails.length === 0) {
+      const count = Math.min((input.count as number) || 5, MAX_TOOL_RESULTS);
+      const page = await listEmailPage(count, undefined, input.pageToken as string | undefined);
+      if (page.emails.length === 0) {
         return 'No emails found.';
       }
-      return formatEmailListForSlack(emails);
+      hooks.onEmailList?.('📬 *Recent Emails*', page.emails);
+      return formatEmailPage(page);
     }
 
     case 'get_email_details': {
@@ -388,6 +1033,53 @@ async function executeTool(
       return formatEmailForSlack(email, true);
     }
 
+    case 'get_thread': {
+      const thread = await getThreadForId(input.id as string);
+      if (!thread) {
+        return `Thread not found for ID: ${input.id}`;
+      }
+      return formatThreadForSlack(thread, 2000);
+    }
+
+    case 'list_attachments': {
+      const attachments = await listAttachments(input.messageId as string);
+      if (attachments.length === 0) {
+        return `No attachments on email: ${input.messageId}`;
+      }
+      return formatAttachmentListForSlack(attachments);
+    }
+
+    case 'download_attachment': {
+      if (!hooks.uploadFile) {
+        return '❌ File uploads are not available here';
+      }
+      const messageId = input.messageId as string;
+      const attachmentId = input.attachmentId as string;
+
+      // Check the policy on metadata first so disallowed files are never downloaded
+      const attachments = await listAttachments(messageId);
+      const attachment = attachments.find(a => a.attachmentId === attachmentId);
+      if (!attachment) {
+        return `❌ Attachment not found on email: ${messageId}`;
+      }
+      const rejection = checkAttachmentPolicy(attachment);
+      if (rejection) {
+        return `🚫 ${rejection}`;
+      }
+
+      const file = await downloadAttachment(messageId, attachmentId);
+      if (!file) {
+        return `❌ Failed to download attachment`;
+      }
+      const sizeRejection = checkAttachmentPolicy({ mimeType: attachment.mimeType, size: file.data.length });
+      if (sizeRejection) {
+        return `🚫 ${sizeRejection}`;
+      }
+
+      await hooks.uploadFile({ filename: attachment.filename, mimeType: attachment.mimeType, data: file.data });
+      return `📎 Uploaded ${attachment.filename} (${formatBytes(file.data.length)})`;
+    }
+
     case 'send_email': {
       const result = await sendEmail(
         [input.to as string],
@@ -400,34 +1092,202 @@ async function executeTool(
       return `❌ Failed to send email: ${result.error || 'Unknown error'}`;
     }
 
+    case 'reply_to_email': {
+      const result = await replyToEmail(
+        input.messageId as string,
+        input.body as string,
+        input.recipients as ReplyRecipients | undefined
+      );
+      if (result.success) {
+        return `✅ Reply sent in thread for email: ${input.messageId}`;
+      }
+      return `❌ Failed to send reply: ${result.error || 'Unknown error'}`;
+    }
+
+    case 'reply_all_to_email': {
+      const result = await replyAllToEmail(
+        input.messageId as string,
+        input.body as string,
+        input.recipients as ReplyRecipients | undefined
+      );
+      if (result.success) {
+        return `✅ Reply-all sent in thread for email: ${input.messageId}`;
+      }
+      return `❌ Failed to send reply: ${result.error || 'Unknown error'}`;
+    }
+
+    case 'forward_email': {
+      const to = input.to as string[];
+      const result = await forwardEmail(input.messageId as string, to, (input.note as string) || '');
+      if (result.success) {
+        return `✅ Email forwarded to ${to.join(', ')}`;
+      }
+      return `❌ Failed to forward email: ${result.error || 'Unknown error'}`;
+    }
+
+    case 'list_drafts': {
+      const drafts = await listDrafts((input.maxResults as number) || 10);
+      if (drafts.length === 0) {
+        return 'No drafts found.';
+      }
+      return formatDraftListForSlack(drafts);
+    }
+
+    case 'get_draft': {
+      const draft = await getDraft(input.draftId as string);
+      if (!draft) {
+        return `Draft not found with ID: ${input.draftId}`;
+      }
+      return formatDraftForSlack(draft);
+    }
+
+    case 'create_draft': {
+      const draft = await createDraft(
+        [input.to as string],
+        input.subject as string,
+        input.body as string
+      );
+      if (draft) {
+        return `📝 Draft saved (ID: ${draft.id})\n\n${formatDraftForSlack(draft)}`;
+      }
+      return `❌ Failed to create draft`;
+    }
+
+    case 'update_draft': {
+      const existing = await getDraft(input.draftId as string);
+      if (!existing) {
+        return `Draft not found with ID: ${input.draftId}`;
+      }
+      const draft = await updateDraft(
+        existing.id,
+        [(input.to as string) || existing.message.to],
+        (input.subject as string) || existing.message.subject,
+        (input.body as string) || existing.message.body || ''
+      );
+      if (draft) {
+        return `📝 Draft updated\n\n${formatDraftForSlack(draft)}`;
+      }
+      return `❌ Failed to update draft`;
+    }
+
+    case 'delete_draft': {
+      const success = await deleteDraft(input.draftId as string);
+      if (success) {
+        return `🗑️ Draft deleted: ${input.draftId}`;
+      }
+      return `❌ Failed to delete draft`;
+    }
+
+    case 'send_draft': {
+      const result = await sendDraft(input.draftId as string);
+      if (result.success) {
+        return `✅ Draft sent: ${input.draftId}`;
+      }
+      return `❌ Failed to send draft: ${result.error || 'Unknown error'}`;
+    }
+
     case 'mark_as_read': {
-      const success = await markAsRead(input.messageId as string);
+      const messageId = input.messageId as string;
+      const before = await getMessageLabels([messageId]);
+      const success = await markAsRead(messageId);
       if (success) {
+        await recordUndo(hooks, `Marked ${messageId} as read`, inverseLabelChanges(before, [messageId], [], ['UNREAD']));
         return `✅ Email marked as read: ${input.messageId}`;
       }
       return `❌ Failed to mark email as read`;
     }
 
+    case 'mark_as_unread': {
+      const messageId = input.messageId as string;
+      const before = await getMessageLabels([messageId]);
+      const success = await markAsUnread(messageId);
+      if (success) {
+        await recordUndo(hooks, `Marked ${messageId} as unread`, inverseLabelChanges(before, [messageId], ['UNREAD']));
+        return `🔵 Email marked as unread: ${input.messageId}`;
+      }
+      return `❌ Failed to mark email as unread`;
+    }
+
     case 'trash_email': {
-      const success = await trashEmail(input.messageId as string);
+      const messageId = input.messageId as string;
+      const wasTrashed = (await getMessageLabels([messageId])).get(messageId)?.includes('TRASH') ?? true;
+      const success = await trashEmail(messageId);
       if (success) {
+        await recordUndo(hooks, `Trashed ${messageId}`, wasTrashed ? [] : [{ messageIds: [messageId], inverse: { type: 'untrash' } }]);
         return `🗑️ Email moved to trash: ${input.messageId}`;
       }
       return `❌ Failed to trash email`;
     }
 
+    case 'untrash_email': {
+      const success = await untrashEmail(input.messageId as string);
+      if (success) {
+        return `♻️ Email restored from trash: ${input.messageId}`;
+      }
+      return `❌ Failed to restore email`;
+    }
+
+    case 'delete_email_permanently': {
+      const success = await deleteEmailPermanently(input.messageId as string);
+      if (success) {
+        return `🔥 Email permanently deleted: ${input.messageId}`;
+      }
+      return `❌ Failed to delete email`;
+    }
+
+    case 'get_unread_count': {
+      if (input.label) {
+        const found = await findLabel(input.label as string);
+        const label = found && await getLabel(found.id);
+        if (!label) {
+          return `Label not found: ${input.label}`;
+        }
+        return `*${label.name}:* ${label.messagesUnread ?? 0} unread of ${label.messagesTotal ?? 0}`;
+      }
+      return formatUnreadCountsForSlack(await getUnreadCounts());
+    }
+
     case 'create_label': {
-      const label = await createLabel(input.name as string);
+      const existing = await findLabel(input.name as string);
+      if (existing) {
+        return `Label "${existing.name}" already exists (ID: ${existing.id})`;
+      }
+      const color = input.color ? LABEL_COLORS[input.color as string] : undefined;
+      const label = await createLabel(input.name as string, color);
       if (label) {
         return `✅ Label created: "${input.name}" (ID: ${label.id})`;
       }
       return `❌ Failed to create label`;
     }
 
+    case 'update_label': {
+      const label = await resolveLabelInput(input);
+      if (typeof label === 'string') return label;
+      if (label.type !== 'user') {
+        return `❌ "${label.name}" is a system label and can't be changed`;
+      }
+      const newName = (input.newName as string | undefined)?.trim();
+      const color = input.color ? LABEL_COLORS[input.color as string] : undefined;
+      if (!newName && !color) {
+        return '❌ Provide a new name or a color';
+      }
+      const success = await updateLabel(label.id, { name: newName || undefined, color });
+      if (success) {
+        const changes = [newName && `renamed to "${newName}"`, color && `colored ${input.color}`].filter(Boolean).join(' and ');
+        return `✅ Label "${label.name}" ${changes}`;
+      }
+      return `❌ Failed to update label`;
+    }
+
     case 'delete_label': {
-      const success = await deleteLabel(input.labelId as string);
+      const label = await resolveLabelInput(input);
+      if (typeof label === 'string') return label;
+      if (label.type !== 'user') {
+        return `❌ "${label.name}" is a system label and can't be deleted`;
+      }
+      const success = await deleteLabel(label.id);
       if (success) {
-        return `✅ Label deleted`;
+        return `✅ Label deleted: "${label.name}"`;
       }
       return `❌ Failed to delete label`;
     }
@@ -452,46 +1312,127 @@ async function executeTool(
     }
 
     case 'star_email': {
-      const success = await starEmail(input.messageId as string);
+      const messageId = input.messageId as string;
+      const before = await getMessageLabels([messageId]);
+      const success = await starEmail(messageId);
       if (success) {
+        await recordUndo(hooks, `Starred ${messageId}`, inverseLabelChanges(before, [messageId], ['STARRED']));
         return `⭐ Email starred: ${input.messageId}`;
       }
       return `❌ Failed to star email`;
     }
 
     case 'unstar_email': {
-      const success = await unstarEmail(input.messageId as string);
+      const messageId = input.messageId as string;
+      const before = await getMessageLabels([messageId]);
+      const success = await unstarEmail(messageId);
       if (success) {
+        await recordUndo(hooks, `Unstarred ${messageId}`, inverseLabelChanges(before, [messageId], [], ['STARRED']));
         return `✅ Star removed from email: ${input.messageId}`;
       }
       return `❌ Failed to unstar email`;
     }
 
     case 'archive_email': {
-      const success = await archiveEmail(input.messageId as string);
+      const messageId = input.messageId as string;
+      const before = await getMessageLabels([messageId]);
+      const success = await archiveEmail(messageId);
       if (success) {
+        await recordUndo(hooks, `Archived ${messageId}`, inverseLabelChanges(before, [messageId], [], ['INBOX']));
         return `📁 Email archived: ${input.messageId}`;
       }
       return `❌ Failed to archive email`;
     }
 
+    case 'snooze_email': {
+      if (!hooks.snoozeEmail) {
+        return '❌ Snoozing is not available here';
+      }
+      return hooks.snoozeEmail(input.messageId as string, input.until as string);
+    }
+
+    case 'list_snoozed_emails': {
+      if (!hooks.listSnoozedEmails) {
+        return '❌ Snoozing is not available here';
+      }
+      return hooks.listSnoozedEmails();
+    }
+
     case 'batch_star_emails': {
-      const messageIds = input.messageIds as string[];
-      const success = await batchModifyEmails(messageIds, ['STARRED'], undefined);
-      if (success) {
-        return `⭐ Starred ${messageIds.length} emails`;
+      const target = await resolveBatchTarget(input);
+      if (typeof target === 'string') return target;
+      const result = await batchModifyEmails(target.messageIds, ['STARRED'], undefined);
+      if (result.modified.length === 0) {
+        return `❌ Failed to star emails: ${result.error || 'Unknown error'}`;
       }
-      return `❌ Failed to star emails`;
+      const changes = inverseLabelChanges(target.labelsById, result.modified, ['STARRED']);
+      await recordUndo(hooks, `Starred ${countUndoMessages(changes)} emails`, changes);
+      return `⭐ Starred ${result.modified.length} emails${batchLimitNote(target)}${batchFailureNote(result)}`;
     }
 
     case 'batch_apply_label': {
-      const messageIds = input.messageIds as string[];
-      const labelId = input.labelId as string;
-      const success = await batchModifyEmails(messageIds, [labelId], undefined);
-      if (success) {
-        return `✅ Applied label to ${messageIds.length} emails`;
+      // Check the label first so a missing label is reported before any search runs
+      const label = await resolveLabelInput(input, input.createIfMissing === true ? 'create' : 'offer');
+      if (typeof label === 'string') return label;
+      const target = await resolveBatchTarget(input);
+      if (typeof target === 'string') return target;
+      const result = await batchModifyEmails(target.messageIds, [label.id], undefined);
+      if (result.modified.length === 0) {
+        return `❌ Failed to apply label: ${result.error || 'Unknown error'}`;
+      }
+      const changes = inverseLabelChanges(target.labelsById, result.modified, [label.id]);
+      await recordUndo(hooks, `Labeled ${countUndoMessages(changes)} emails "${label.name}"`, changes);
+      return `🏷️ Applied label "${label.name}" to ${result.modified.length} emails${batchLimitNote(target)}${batchFailureNote(result)}`;
+    }
+
+    case 'batch_remove_label': {
+      const label = await resolveLabelInput(input);
+      if (typeof label === 'string') return label;
+      const target = await resolveBatchTarget(input);
+      if (typeof target === 'string') return target;
+      const result = await batchModifyEmails(target.messageIds, undefined, [label.id]);
+      if (result.modified.length === 0) {
+        return `❌ Failed to remove label: ${result.error || 'Unknown error'}`;
+      }
+      const changes = inverseLabelChanges(target.labelsById, result.modified, [], [label.id]);
+      await recordUndo(hooks, `Removed "${label.name}" from ${countUndoMessages(changes)} emails`, changes);
+      return `✅ Removed label "${label.name}" from ${result.modified.length} emails${batchLimitNote(target)}${batchFailureNote(result)}`;
+    }
+
+    case 'batch_archive_emails': {
+      const target = await resolveBatchTarget(input);
+      if (typeof target === 'string') return target;
+      const result = await batchModifyEmails(target.messageIds, undefined, ['INBOX']);
+      if (result.modified.length === 0) {
+        return `❌ Failed to archive emails: ${result.error || 'Unknown error'}`;
+      }
+      const changes = inverseLabelChanges(target.labelsById, result.modified, [], ['INBOX']);
+      await recordUndo(hooks, `Archived ${countUndoMessages(changes)} emails`, changes);
+      return `📁 Archived ${result.modified.length} emails${batchLimitNote(target)}${batchFailureNote(result)}`;
+    }
+
+    case 'batch_mark_read': {
+      const target = await resolveBatchTarget(input);
+      if (typeof target === 'string') return target;
+      const result = await batchModifyEmails(target.messageIds, undefined, ['UNREAD']);
+      if (result.modified.length === 0) {
+        return `❌ Failed to mark emails as read: ${result.error || 'Unknown error'}`;
+      }
+      const changes = inverseLabelChanges(target.labelsById, result.modified, [], ['UNREAD']);
+      await recordUndo(hooks, `Marked ${countUndoMessages(changes)} emails as read`, changes);
+      return `✅ Marked ${result.modified.length} emails as read${batchLimitNote(target)}${batchFailureNote(result)}`;
+    }
+
+    case 'batch_trash_emails': {
+      const target = await resolveBatchTarget(input);
+      if (typeof target === 'string') return target;
+      const result = await batchModifyEmails(target.messageIds, ['TRASH'], ['INBOX']);
+      if (result.modified.length === 0) {
+        return `❌ Failed to trash emails: ${result.error || 'Unknown error'}`;
       }
-      return `❌ Failed to apply label`;
+      const changes = inverseLabelChanges(target.labelsById, result.modified, ['TRASH'], ['INBOX']);
+      await recordUndo(hooks, `Trashed ${countUndoMessages(changes)} emails`, changes);
+      return `🗑️ Moved ${result.modified.length} emails to trash${batchLimitNote(target)}${batchFailureNote(result)}`;
     }
 
     case 'find_marketing_emails': {
@@ -545,11 +1486,242 @@ async function executeTool(
       return result;
     }
 
+    case 'get_vacation_settings': {
+      const settings = await getVacationSettings();
+      if (!settings) {
+        return '❌ Could not get vacation responder settings';
+      }
+      return formatVacationForSlack(settings);
+    }
+
+    case 'set_vacation_settings': {
+      const current = await getVacationSettings();
+      const startTime = input.startDate ? parseDateInput(input.startDate as string) : current?.startTime;
+      const endTime = input.endDate ? parseDateInput(input.endDate as string, true) : current?.endTime;
+      if (startTime === null || endTime === null) {
+        return '❌ Dates must be real dates in YYYY-MM-DD format';
+      }
+      if (startTime !== undefined && endTime !== undefined && endTime < startTime) {
+        return '❌ The end date is before the start date';
+      }
+
+      const settings = {
+        ...current,
+        enableAutoReply: input.enabled as boolean,
+        responseSubject: (input.subject as string) ?? current?.responseSubject,
+        responseBodyPlainText: (input.message as string) ?? current?.responseBodyPlainText,
+        restrictToContacts: (input.restrictToContacts as boolean) ?? current?.restrictToContacts,
+        startTime,
+        endTime,
+      };
+      const success = await setVacationSettings(settings);
+      if (success) {
+        return `✅ Vacation responder updated\n\n${formatVacationForSlack(settings)}`;
+      }
+      return `❌ Failed to update vacation responder`;
+    }
+
     default:
       return `Unknown tool: ${name}`;
   }
 }
 
+// One Claude turn; with a progress handler the reply text is streamed to it as it arrives.
+// Aborting the signal cancels the call.
+async function createMessage(
+  systemPrompt: string,
+  messages: Anthropic.MessageParam[],
+  onProgress?: ProgressHandler,
+  toolChoice?: Anthropic.ToolChoice,
+  signal?: AbortSignal
+): Promise<Anthropic.Message> {
+  const stream = anthropic.messages.stream({
+    model: CLAUDE_MODEL,
+    max_tokens: 1024,
+    system: systemPrompt,
+    tools,
+    ...(toolChoice && { tool_choice: toolChoice }),
+    messages,
+  }, { signal });
+  if (onProgress) {
+    let text = '';
+    stream.on('text', (delta) => {
+      text += delta;
+      onProgress({ type: 'text', text });
+    });
+  }
+  return stream.finalMessage();
+}
+
+function limitNotice(limit: 'step' | 'time'): string {
+  const reason = limit === 'step'
+    ? `the limit of ${MAX_AGENT_STEPS} tool steps for one request`
+    : 'the time limit for one request';
+  return `You reached ${reason}. Do not call more tools. Tell the user what you found or did so far, and what is still left so they can ask again.`;
+}
+
+// Partial answer once a limit is hit; tools stay listed (the history uses them) but can't be called.
+// The notice goes in the system prompt, so the conversation itself is saved unchanged.
+async function wrapUp(
+  systemPrompt: string,
+  messages: Anthropic.MessageParam[],
+  limit: 'step' | 'time',
+  onProgress?: ProgressHandler
+): Promise<string> {
+  const note = limit === 'step'
+    ? '⚠️ _I stopped after too many steps - this answer may be incomplete._'
+    : '⚠️ _This request took too long, so I stopped early - this answer may be incomplete._';
+  try {
+    const response = await createMessage(
+      `${systemPrompt}\n\n${limitNotice(limit)}`,
+      messages,
+      onProgress,
+      { type: 'none' },
+      AbortSignal.timeout(WRAP_UP_TIMEOUT_MS)
+    );
+    const text = response.content
+      .filter((block): block is Anthropic.TextBlock => block.type === 'text')
+      .map(block => block.text)
+      .join('\n');
+    return text ? `${text}\n\n${note}` : note;
+  } catch (error) {
+    console.error('Error writing partial answer:', error);
+    return note;
+  }
+}
+
+// First line of a tool result, short enough for a progress line
+function summarizeToolResult(content: string, max: number = 80): string {
+  const line = content.split('\n').map(l => l.trim()).find(Boolean) ?? '';
+  return line.length > max ? line.substring(0, max) + '...' : line;
+}
+
+type ToolUse = { id: string; name: string; input: Record<string, unknown> };
+
+// What a tool result looks like in history: an index of listed emails, or the text cut short
+function compactToolResult(content: string, listed?: EmailMessage[]): string {
+  if (listed) {
+    const pageToken = content.match(/pass pageToken "([^"]+)"/)?.[1];
+    return [
+      `${listed.length} emails (ID | subject | from):`,
+      ...listed.map((email, i) => `${i + 1}. ${email.id} | ${email.subject} | ${email.from}`),
+      ...(pageToken ? [`More results: pageToken "${pageToken}"`] : []),
+    ].join('\n');
+  }
+  return content.length > MAX_STORED_RESULT_LENGTH
+    ? content.substring(0, MAX_STORED_RESULT_LENGTH) + '... [truncated]'
+    : content;
+}
+
+function withStoredResults(message: Anthropic.MessageParam, storedResults: Map<string, string>): Anthropic.MessageParam {
+  if (message.role !== 'user' || typeof message.content === 'string') {
+    return message;
+  }
+  return {
+    ...message,
+    content: message.content.map(block =>
+      block.type === 'tool_result' && storedResults.has(block.tool_use_id)
+        ? { ...block, content: storedResults.get(block.tool_use_id)! }
+        : block
+    ),
+  };
+}
+
+// Plain-text rendering of history for the summarizer
+function renderHistory(messages: Anthropic.MessageParam[]): string {
+  const lines: string[] = [];
+  for (const message of messages) {
+    if (typeof message.content === 'string') {
+      lines.push(`${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}`);
+      continue;
+    }
+    for (const block of message.content) {
+      if (block.type === 'text') {
+        lines.push(`${message.role === 'user' ? 'User' : 'Assistant'}: ${block.text}`);
+      } else if (block.type === 'tool_use') {
+        lines.push(`Assistant called ${block.name} ${JSON.stringify(block.input)}`);
+      } else if (block.type === 'tool_result') {
+        lines.push(`Tool result: ${typeof block.content === 'string' ? block.content : '[non-text result]'}`);
+      }
+    }
+  }
+  return lines.join('\n');
+}
+
+async function summarizeHistory(previousSummary: string, dropped: Anthropic.MessageParam[]): Promise<string> {
+  const response = await anthropic.messages.create({
+    model: CLAUDE_MODEL,
+    max_tokens: 600,
+    system: 'You keep a running summary of a conversation between a user and their Gmail assistant. Write a short factual summary (under 200 words) that merges the previous summary with the new transcript. Keep email IDs, subjects, senders, and label names the user may refer back to, what was done to which emails, and any open tasks. Output only the summary.',
+    messages: [{
+      role: 'user',
+      content: `Previous summary:\n${previousSummary || '(none)'}\n\nTranscript to fold in:\n${renderHistory(dropped)}`,
+    }],
+  }, { signal: AbortSignal.timeout(SUMMARY_TIMEOUT_MS) });
+  return response.content
+    .filter((block): block is Anthropic.TextBlock => block.type === 'text')
+    .map(block => block.text)
+    .join('\n')
+    .trim();
+}
+
+// Fold the oldest requests into state.context once history is too long. Whole requests are
+// dropped, so history always starts with a user request, and the latest one is always kept.
+async function compactHistory(state: ConversationState): Promise<void> {
+  if (state.messages.length <= MAX_HISTORY_MESSAGES) return;
+
+  // A request starts with a plain-text user message; tool results are block arrays
+  const starts = state.messages.flatMap((message, i) =>
+    message.role === 'user' && typeof message.content === 'string' ? [i] : []
+  );
+  if (starts.length === 0) return;
+
+  let cut = starts[starts.length - 1];
+  for (let k = starts.length - 2; k >= 0 && state.messages.length - starts[k] <= HISTORY_KEEP_MESSAGES; k--) {
+    cut = starts[k];
+  }
+  if (cut === 0) return;
+
+  const dropped = state.messages.slice(0, cut);
+  try {
+    state.context = (await summarizeHistory(state.context, dropped)) || state.context;
+  } catch (error) {
+    // The old turns are dropped either way; the previous summary stays
+    console.error('Error summarizing conversation history:', error);
+  }
+  state.messages = state.messages.slice(cut);
+}
+
+// Replies are confirmed with their resolved recipients, and then sent to exactly those
+async function withReplyRecipients(toolUse: ToolUse): Promise<ToolUse> {
+  if (toolUse.name !== 'reply_to_email' && toolUse.name !== 'reply_all_to_email') return toolUse;
+  const recipients = await getReplyRecipients(
+    toolUse.input.messageId as string,
+    toolUse.name === 'reply_all_to_email'
+  ).catch(() => null);
+  return { ...toolUse, input: { ...toolUse.input, recipients: recipients ?? undefined } };
+}
+
+// Any failure becomes an error tool result so Claude can tell the user what went wrong
+// instead of the whole request failing
+async function runTool(
+  name: string,
+  input: Record<string, unknown>,
+  hooks: AssistantHooks
+): Promise<{ content: string; isError: boolean }> {
+  try {
+    // Mailbox changes made by a tool are attributed to the assistant in the audit log
+    const content = await withAuditContext({ source: 'tool' }, () => executeTool(name, input, hooks));
+    return { content, isError: false };
+  } catch (error) {
+    if (error instanceof GmailApiError) {
+      return { content: error.message, isError: true };
+    }
+    console.error(`Error running tool ${name}:`, error);
+    return { content: `Tool failed: ${error instanceof Error ? error.message : 'Unknown error'}`, isError: true };
+  }
+}
+
 // Get current date info for context
 function getDateContext(): string {
   const now = new Date();
@@ -566,14 +1738,122 @@ function getDateContext(): string {
   return `Today is ${today}. Last week started ${lastWeekStr}. Last month started ${lastMonthStr}.`;
 }
 
+export interface DigestItem {
+  id: string;
+  summary: string;
+}
+
+export interface DigestSummary {
+  overview: string;
+  needsReply: DigestItem[];
+  fyi: DigestItem[];
+  newsletters: DigestItem[];
+}
+
+const digestTool: Anthropic.Tool = {
+  name: 'report_digest',
+  description: 'Report the grouped inbox digest',
+  input_schema: {
+    type: 'object' as const,
+    properties: {
+      overview: {
+        type: 'string',
+        description: 'One or two sentences on what stands out today',
+      },
+      needsReply: {
+        type: 'array',
+        description: 'Emails from real people that are waiting on a reply or decision',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            summary: { type: 'string', description: 'What the sender wants, in under 15 words' },
+          },
+          required: ['id', 'summary'],
+        },
+      },
+      fyi: {
+        type: 'array',
+        description: 'Informational emails worth knowing about but needing no reply (receipts, notifications, updates)',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            summary: { type: 'string', description: 'The key point, in under 15 words' },
+          },
+          required: ['id', 'summary'],
+        },
+      },
+      newsletters: {
+        type: 'array',
+        description: 'Newsletters, marketing, and promotional emails',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            summary: { type: 'string', description: 'The topic, in under 10 words' },
+          },
+          required: ['id', 'summary'],
+        },
+      },
+    },
+    required: ['overview', 'needsReply', 'fyi', 'newsletters'],
+  },
+};
+
+// Group and summarize a batch of emails for the daily digest
+export async function summarizeEmailsForDigest(emails: EmailMessage[]): Promise<DigestSummary> {
+  const emailList = emails.map((email) => [
+    `ID: ${email.id}`,
+    `From: ${email.from}`,
+    `Subject: ${email.subject}`,
+    `Date: ${email.date}`,
+    `Snippet: ${email.snippet}`,
+  ].join('\n')).join('\n\n');
+
+  const response = await anthropic.messages.create({
+    model: CLAUDE_MODEL,
+    max_tokens: 2048,
+    system: 'You write a short daily inbox digest for a busy professional. Put every email in exactly one group, using its ID as given.',
+    tools: [digestTool],
+    tool_choice: { type: 'tool', name: digestTool.name },
+    messages: [{ role: 'user', content: `Here are today's emails:\n\n${emailList}` }],
+  });
+
+  const toolUse = response.content.find(
+    (block): block is Anthropic.ToolUseBlock => block.type === 'tool_use'
+  );
+  if (!toolUse) {
+    throw new Error('Claude did not return a digest');
+  }
+  // The schema is a request, not a guarantee: drop missing groups and malformed items
+  const input = toolUse.input as Partial<Record<keyof DigestSummary, unknown>>;
+  return {
+    overview: typeof input.overview === 'string' ? input.overview : '',
+    needsReply: toDigestItems(input.needsReply),
+    fyi: toDigestItems(input.fyi),
+    newsletters: toDigestItems(input.newsletters),
+  };
+}
+
+function toDigestItems(value: unknown): DigestItem[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter((item): item is DigestItem =>
+    typeof item?.id === 'string' && typeof item?.summary === 'string'
+  );
+}
+
 // Main function to process natural language requests
-// Now with conversation memory per user!
+// Now with conversation memory per user and thread session!
 export async function processNaturalLanguageRequest(
   userRequest: string,
-  userId: string = 'default'
+  userId: string = 'default',
+  hooks: AssistantHooks = {},
+  scope: ConversationScope = 'slash'
 ): Promise<string> {
-  // Get or create conversation state for this user
-  const state = getConversationState(userId);
+  // Get or create the state of this conversation
+  const key = conversationKey(userId, scope);
+  const state = await getConversationState(key);
 
   const systemPrompt = `You are a helpful Gmail assistant integrated with Slack. You help users manage their email through natural language.
 
@@ -583,29 +1863,39 @@ Your capabilities:
 - Search emails using Gmail's powerful search syntax
 - List recent emails
 - Read specific email content
+- Read a full conversation thread
+- List email attachments and upload them to the user in Slack
 - Send emails (compose professional messages when asked)
+- Reply, reply all, and forward existing emails (keeps the Gmail thread)
+- Create, view, update, delete, and send drafts
 - Mark emails as read
 - Move emails to trash
-- Create, delete, and manage labels
+- Create, rename, recolor, and delete labels
 - Star/unstar emails
 - Archive emails
-- Batch operations (star all emails from a sender, apply labels to multiple emails)
+- Batch operations (star, label, unlabel, archive, mark read, or trash everything from a sender or matching a search)
 - Find marketing/promotional emails and help users unsubscribe
 - Get unsubscribe links from emails
+- View and set the vacation responder (out-of-office auto-reply)
 
 CONVERSATION MEMORY:
 - You now have conversation memory! You can remember previous messages in this chat.
 - Users can refer to previous results like "unsubscribe from 1, 3, and 5" or "trash the second one"
 - When users reference numbers or "that email", look at your previous responses to understand context
-- If you showed a list of emails, remember those IDs for follow-up actions
+- Results of your earlier tool calls (email IDs, subjects, senders) stay in the conversation - use those IDs for follow-up actions
 - Conversations reset after 30 minutes of inactivity or when the user says "clear", "reset", or "start over"
 
 Guidelines:
 - When users ask about "recent" or "latest" emails, use list_recent_emails
+- When users ask about a conversation as a whole ("what did we decide", "summarize this thread"), use get_thread
 - When users want emails from a time period (last week, yesterday, etc.), convert to Gmail date syntax (after:YYYY/MM/DD or newer_than:Xd)
 - When users ask to compose/draft/send an email, help them write it professionally
+- When users ask to "draft" or "prepare" an email, save it with create_draft and show it for review - only send once they confirm
+- When users want to reply to or forward an email you listed or read ("reply to the second one"), use reply_to_email, reply_all_to_email, or forward_email with that email's ID - never send_email, which starts a new unthreaded conversation
 - When searching, be smart about converting natural language to Gmail search operators
 - Always be concise in your responses - this is Slack, not email
+- Emails you fetch with search_emails or list_recent_emails are shown to the user below your reply with Read/Archive/Star/Trash buttons, so summarize them instead of repeating every ID
+- If a tool fails, tell the user plainly what kind of problem it was (credentials, not found, rate limit, or service outage) and what they can do - don't retry the same call more than once
 - If you need more information to complete a request (like an email address to send to), ask for it
 - You CAN now ask follow-up questions since conversations persist!
 
@@ -624,7 +1914,6 @@ Examples of query conversions:
 - "emails about meeting but not calendar" → "meeting -calendar"
 - "Google Doc attachments" → "has:document"
 - "emails from mailing lists" → "list:*"
-- "snoozed emails" → "is:snoozed"
 - "emails mentioning budget near report" → "budget AROUND 5 report"
 
 For unsubscribe requests:
@@ -637,77 +1926,182 @@ For unsubscribe requests:
    1. **Amazon** - <https://unsubscribe.amazon.com/xxx|Unsubscribe>
    2. **Newsletter** - <https://example.com/unsub|Unsubscribe>"
 
-For batch operations:
-- First search for the emails to get their IDs
-- Then use batch_star_emails or batch_apply_label with the IDs
-- Example: "Star all emails from boss@company.com" → search, collect IDs, then batch star`;
-
-  // Add the new user message to conversation history
-  state.messages.push({ role: 'user', content: userRequest });
-
-  // Trim history if it gets too long (keep most recent messages)
-  while (state.messages.length > MAX_HISTORY_MESSAGES) {
-    state.messages.shift();
-  }
-
-  // Use the full conversation history
-  const messages = [...state.messages];
-
-  let response = await anthropic.messages.create({
-    model: 'claude-sonnet-4-20250514',
-    max_tokens: 1024,
-    system: systemPrompt,
-    tools,
-    messages,
-  });
+CONFIRMATIONS:
+- Sending, replying, forwarding, sending drafts, trashing, deleting labels, and batch operations show the user a Confirm/Cancel button before they run
+- Permanent deletion asks the user to type a confirmation word - prefer trash_email unless they clearly want the email gone forever
+- Just call the tool - the confirmation happens automatically
+- If a tool result says the user did not approve, do not retry; acknowledge that nothing was done
 
-  // Agentic loop - keep processing until we get a final response
-  while (response.stop_reason === 'tool_use') {
+For batch operations:
+- To act on everything matching a search, pass the Gmail query to a batch_ tool - every match is processed, not just one page
+- Pass messageIds instead when the user picked specific emails from a list
+- Example: "Star all emails from boss@company.com" → batch_star_emails with query "from:boss@company.com"
+- Report how many emails were processed, and mention it if the safety limit was reached
+
+For labels:
+- Label tools take the label's name as the user says it ("Receipts") - no need to look up IDs with get_labels first
+- If batch_apply_label says the label doesn't exist, ask the user whether to create it; only retry with createIfMissing after they agree
+
+For undo:
+- Trash, archive, star, read/unread and label changes get an Undo button under your reply automatically; the user can also say "undo" (or "undo list") to reverse them
+- If the user asks in other words to reverse something you just did, use the matching tool (untrash_email, unstar_email, batch_remove_label, ...)
+
+For snoozing:
+- Use snooze_email when the user wants an email out of the way until later ("remind me about this tomorrow")
+- Emails snoozed with this bot are archived until they wake, so they do not match is:snoozed - use list_snoozed_emails to show them
+
+For long result lists:
+- Search and list results come a page at a time; pass the pageToken from the result to get the next page${state.context ? `
+
+EARLIER IN THIS CONVERSATION (summary of requests no longer shown above):
+${state.context}` : ''}`;
+
+  // Use the full conversation history plus the new request
+  const historyLength = state.messages.length;
+  const messages: Anthropic.MessageParam[] = [...state.messages, { role: 'user', content: userRequest }];
+
+  // Compact versions of this request's tool results, stored in history instead of the full text
+  const storedResults = new Map<string, string>();
+
+  const startedAt = Date.now();
+  let waitedForUserMs = 0;
+  let steps = 0;
+  let partialAnswer: string | undefined;
+
+  // Time left for this request; waiting for the user to confirm doesn't count
+  const remainingMs = () => AGENT_DEADLINE_MS - (Date.now() - startedAt - waitedForUserMs);
+
+  // The next Claude turn, cancelled when the time runs out; undefined if it did
+  const nextTurn = async (): Promise<Anthropic.Message | undefined> => {
+    if (remainingMs() <= 0) return undefined;
+    const signal = AbortSignal.timeout(remainingMs());
+    try {
+      return await createMessage(systemPrompt, messages, hooks.onProgress, undefined, signal);
+    } catch (error) {
+      if (signal.aborted) return undefined;
+      throw error;
+    }
+  };
+
+  // Tools can't be cancelled, so one that outlasts the time left is given up on and reported as such
+  const runToolInTime = async (toolUse: ToolUse, toolHooks: AssistantHooks) => {
+    let timer: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<{ content: string; isError: boolean }>(resolve => {
+      timer = setTimeout(() => resolve({
+        content: `Timed out: ${toolUse.name} did not finish within the time limit for this request. It may still complete - check before trying again.`,
+        isError: true,
+      }), Math.max(remainingMs(), 0));
+    });
+    try {
+      return await Promise.race([runTool(toolUse.name, toolUse.input, toolHooks), timedOut]);
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+
+  let response = await nextTurn();
+
+  const handleToolUse = async (toolUse: ToolUse): Promise<Anthropic.ToolResultBlockParam> => {
+    hooks.onProgress?.({ type: 'tool_started', toolName: toolUse.name });
+    // Email lists are captured so memory keeps their IDs and subjects
+    let listed: EmailMessage[] | undefined;
+    const toolHooks: AssistantHooks = {
+      ...hooks,
+      onEmailList: (title, emails) => {
+        listed = emails;
+        hooks.onEmailList?.(title, emails);
+      },
+    };
+    let result: { content: string; isError: boolean };
+    if (TOOLS_REQUIRING_CONFIRMATION.has(toolUse.name)) {
+      // Pause until the user approves; without a handler nothing risky runs
+      const confirmed = await withReplyRecipients(toolUse);
+      const waitStart = Date.now();
+      const approved = hooks.confirmToolCall ? await hooks.confirmToolCall(confirmed.name, confirmed.input) : false;
+      waitedForUserMs += Date.now() - waitStart;
+      result = approved
+        ? await runToolInTime(confirmed, toolHooks)
+        : { content: `🚫 The user did not approve ${toolUse.name}. The action was NOT performed.`, isError: false };
+    } else {
+      result = await runToolInTime(toolUse, toolHooks);
+    }
+    storedResults.set(toolUse.id, compactToolResult(result.content, listed));
+    hooks.onProgress?.({
+      type: 'tool_finished',
+      toolName: toolUse.name,
+      summary: summarizeToolResult(result.content),
+      isError: result.isError,
+    });
+    return {
+      type: 'tool_result',
+      tool_use_id: toolUse.id,
+      content: result.content,
+      ...(result.isError && { is_error: true }),
+    };
+  };
+
+  // Agentic loop - keep processing until we get a final response or hit a limit
+  while (response?.stop_reason === 'tool_use') {
     const toolUseBlocks = response.content.filter(
-      (block): block is Anthropic.ContentBlockParam & { type: 'tool_use'; id: string; name: string; input: Record<string, unknown> } =>
-        block.type === 'tool_use'
+      (block): block is Anthropic.ToolUseBlock & ToolUse => block.type === 'tool_use'
     );
+    messages.push({ role: 'assistant', content: response.content });
 
-    const toolResults: Anthropic.ToolResultBlockParam[] = [];
-
-    for (const toolUse of toolUseBlocks) {
-      const result = await executeTool(toolUse.name, toolUse.input);
-      toolResults.push({
+    const limit = steps >= MAX_AGENT_STEPS ? 'step'
+      : remainingMs() <= 0 ? 'time'
+      : null;
+    if (limit) {
+      // Every tool call still needs a result; then Claude wraps up with what it has
+      const skipped: Anthropic.ToolResultBlockParam[] = toolUseBlocks.map(toolUse => ({
         type: 'tool_result',
         tool_use_id: toolUse.id,
-        content: result,
-      });
+        content: 'Not run: the request limit was reached.',
+        is_error: true,
+      }));
+      messages.push({ role: 'user', content: skipped });
+      partialAnswer = await wrapUp(systemPrompt, messages, limit, hooks.onProgress);
+      break;
+    }
+    steps++;
+
+    // Consecutive read-only calls run concurrently; anything with side effects runs on its own, in order
+    const toolResults: Anthropic.ToolResultBlockParam[] = [];
+    for (let i = 0; i < toolUseBlocks.length;) {
+      let end = i + 1;
+      while (READ_ONLY_TOOLS.has(toolUseBlocks[i].name) && end < toolUseBlocks.length && READ_ONLY_TOOLS.has(toolUseBlocks[end].name)) {
+        end++;
+      }
+      toolResults.push(...await Promise.all(toolUseBlocks.slice(i, end).map(handleToolUse)));
+      i = end;
     }
 
-    // Add assistant response and tool results to messages
-    messages.push({ role: 'assistant', content: response.content });
     messages.push({ role: 'user', content: toolResults });
 
     // Continue the conversation
-    response = await anthropic.messages.create({
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: 1024,
-      system: systemPrompt,
-      tools,
-      messages,
-    });
+    response = await nextTurn();
+  }
+
+  // Claude ran out of time mid-turn; the conversation so far ends with the user, so it can wrap up
+  if (!response) {
+    partialAnswer = await wrapUp(systemPrompt, messages, 'time', hooks.onProgress);
   }
 
   // Extract text response
-  const textBlocks = response.content.filter(
+  const textBlocks = (response?.content ?? []).filter(
     (block): block is Anthropic.TextBlock => block.type === 'text'
   );
 
-  const finalResponse = textBlocks.map((block) => block.text).join('\n') || 'I processed your request but have no response to show.';
+  const finalResponse = partialAnswer
+    ?? (textBlocks.map((block) => block.text).join('\n') || 'I processed your request but have no response to show.');
 
-  // Save the final assistant response to conversation history
-  // We save only the text response (not tool calls) to keep history clean
-  state.messages.push({ role: 'assistant', content: finalResponse });
+  // Save this request to history: its tool calls with compacted results, then the final answer
+  state.messages.push(
+    ...messages.slice(historyLength).map(message => withStoredResults(message, storedResults)),
+    { role: 'assistant', content: finalResponse }
+  );
+  await compactHistory(state);
 
-  // Trim history again if needed after adding the response
-  while (state.messages.length > MAX_HISTORY_MESSAGES) {
-    state.messages.shift();
-  }
+  await conversationStore.set(key, state);
 
   return finalResponse;
 }
@@ -1,11 +1,36 @@
 /**
  * Gmail API Client - calls our deployed Gmail HTTP API
+ * Every call is made with the credentials of the Slack user bound by withGmailUser
  */
 
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { getGmailCredentials } from './credentials.js';
+import { recordAudit } from './audit.js';
+
 const GMAIL_API_URL = process.env.GMAIL_API_URL || 'https://gmail-http-api-production.up.railway.app';
-const GMAIL_API_KEY = process.env.GMAIL_API_KEY || '';
 
-interface EmailMessage {
+export class GmailNotConnectedError extends Error {
+  constructor() {
+    super('Your Gmail account is not connected. Run `/gmail-connect` to link it.');
+    this.name = 'GmailNotConnectedError';
+  }
+}
+
+// Slack user on whose behalf Gmail calls in the current async context are made
+const gmailUser = new AsyncLocalStorage<string>();
+
+export function withGmailUser<T>(userId: string, fn: () => Promise<T>): Promise<T> {
+  return gmailUser.run(userId, fn);
+}
+
+export interface Attachment {
+  attachmentId: string;
+  filename: string;
+  mimeType: string;
+  size: number; // bytes
+}
+
+export interface EmailMessage {
   id: string;
   threadId: string;
   subject: string;
@@ -15,6 +40,47 @@ interface EmailMessage {
   snippet: string;
   body?: string;
   labels: string[];
+  cc?: string;
+  messageIdHeader?: string; // RFC 822 Message-ID, used for reply threading
+  references?: string;
+  replyTo?: string; // Reply-To header, where replies go instead of From when set
+  deliveredTo?: string; // Delivered-To header, the account's own address on received mail
+  attachments?: Attachment[];
+}
+
+export interface EmailThread {
+  id: string;
+  messages: EmailMessage[];
+}
+
+export interface Draft {
+  id: string;
+  message: EmailMessage;
+}
+
+export interface VacationSettings {
+  enableAutoReply: boolean;
+  responseSubject?: string;
+  responseBodyPlainText?: string;
+  restrictToContacts?: boolean;
+  restrictToDomain?: boolean;
+  startTime?: number; // epoch ms
+  endTime?: number; // epoch ms
+}
+
+export interface LabelColor {
+  textColor: string; // hex, e.g. #ffffff
+  backgroundColor: string;
+}
+
+export interface GmailLabel {
+  id: string;
+  name: string;
+  type: string;
+  color?: LabelColor;
+  // Only returned when a single label is fetched
+  messagesTotal?: number;
+  messagesUnread?: number;
 }
 
 interface ApiResponse<T> {
@@ -23,22 +89,133 @@ interface ApiResponse<T> {
   error?: string;
   emails?: EmailMessage[];
   email?: EmailMessage;
+  thread?: EmailThread;
+  attachments?: Attachment[];
+  drafts?: Draft[];
+  draft?: Draft;
+  vacation?: VacationSettings;
+  labels?: GmailLabel[];
   count?: number;
+  nextPageToken?: string;
+}
+
+// Per-attempt timeout and retry count for calls to the Gmail HTTP API
+const GMAIL_API_TIMEOUT_MS = parseInt(process.env.GMAIL_API_TIMEOUT_MS || '') || 15000;
+const GMAIL_API_MAX_RETRIES = parseInt(process.env.GMAIL_API_MAX_RETRIES || '') || 2;
+const RETRY_BASE_DELAY_MS = 500;
+
+export type GmailErrorKind = 'auth' | 'not_found' | 'rate_limit' | 'outage' | 'timeout' | 'bad_request' | 'unknown';
+
+// Thrown for any failed Gmail HTTP API call; the message is written to be shown to users as-is
+export class GmailApiError extends Error {
+  readonly kind: GmailErrorKind;
+
+  constructor(
+    readonly status: number | null,
+    readonly endpoint: string,
+    readonly upstreamMessage: string
+  ) {
+    const kind = GmailApiError.classify(status);
+    super(GmailApiError.describe(kind, status, upstreamMessage));
+    this.name = 'GmailApiError';
+    this.kind = kind;
+  }
+
+  // Timeouts, rate limits and outages may succeed on a later attempt
+  get retryable(): boolean {
+    return this.kind === 'timeout' || this.kind === 'rate_limit' || this.kind === 'outage';
+  }
+
+  private static classify(status: number | null): GmailErrorKind {
+    if (status === null) return 'timeout';
+    if (status === 401 || status === 403) return 'auth';
+    if (status === 404) return 'not_found';
+    if (status === 429) return 'rate_limit';
+    if (status >= 500) return 'outage';
+    if (status >= 400) return 'bad_request';
+    return 'unknown';
+  }
+
+  private static describe(kind: GmailErrorKind, status: number | null, upstreamMessage: string): string {
+    const detail = upstreamMessage ? ` (${upstreamMessage})` : '';
+    switch (kind) {
+      case 'auth':
+        return `🔐 Gmail rejected your credentials${detail}. Reconnect with \`/gmail-disconnect\` and \`/gmail-connect\`.`;
+      case 'not_found':
+        return `🔍 Not found in Gmail${detail}. It may have been deleted or the ID is wrong.`;
+      case 'rate_limit':
+        return '⏳ Gmail rate limit reached. Please wait a minute and try again.';
+      case 'outage':
+        return `🚧 The Gmail service is unavailable right now (HTTP ${status}). Please try again shortly.`;
+      case 'timeout':
+        return `⌛ The Gmail service did not respond${detail}. Please try again shortly.`;
+      case 'bad_request':
+        return `❌ Gmail could not process the request${detail}.`;
+      default:
+        return `❌ Unexpected Gmail API response (HTTP ${status})${detail}.`;
+    }
+  }
 }
 
-async function callGmailApi<T>(
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Read an error message from a failed response, which may be JSON or an HTML error page
+async function readUpstreamMessage(response: Response): Promise<string> {
+  const text = await response.text().catch(() => '');
+  try {
+    const json = JSON.parse(text) as { error?: string; message?: string };
+    return json.error || json.message || '';
+  } catch {
+    return text.includes('<') ? response.statusText : text.substring(0, 200);
+  }
+}
+
+async function fetchOnce<T>(url: string, endpoint: string, options: RequestInit): Promise<ApiResponse<T>> {
+  let response: Response;
+  try {
+    response = await fetch(url, { ...options, signal: AbortSignal.timeout(GMAIL_API_TIMEOUT_MS) });
+  } catch (error) {
+    const reason = error instanceof Error && error.name === 'TimeoutError'
+      ? `no response after ${GMAIL_API_TIMEOUT_MS / 1000}s`
+      : 'network error';
+    throw new GmailApiError(null, endpoint, reason);
+  }
+
+  if (!response.ok) {
+    throw new GmailApiError(response.status, endpoint, await readUpstreamMessage(response));
+  }
+
+  try {
+    return (await response.json()) as ApiResponse<T>;
+  } catch {
+    throw new GmailApiError(response.status, endpoint, 'response was not valid JSON');
+  }
+}
+
+async function callGmailApi<T, Extra extends object = object>(
   endpoint: string,
   method: string = 'GET',
-  body?: Record<string, unknown>
-): Promise<ApiResponse<T>> {
+  body?: Record<string, unknown>,
+  { idempotent = method === 'GET' }: { idempotent?: boolean } = {}
+): Promise<ApiResponse<T> & Partial<Extra>> {
   const url = `${GMAIL_API_URL}${endpoint}`;
 
+  const userId = gmailUser.getStore();
+  const credentials = userId ? await getGmailCredentials(userId) : undefined;
+  if (!credentials) {
+    throw new GmailNotConnectedError();
+  }
+
   const headers: Record<string, string> = {
     'Content-Type': 'application/json',
   };
 
-  if (GMAIL_API_KEY) {
-    headers['x-api-key'] = GMAIL_API_KEY;
+  if (credentials.type === 'oauth_token') {
+    headers['Authorization'] = `Bearer ${credentials.value}`;
+  } else {
+    headers['x-api-key'] = credentials.value;
   }
 
   const options: RequestInit = {
@@ -50,98 +227,694 @@ async function callGmailApi<T>(
     options.body = JSON.stringify(body);
   }
 
-  const response = await fetch(url, options);
-  return response.json();
+  // Only idempotent calls are retried - a retried send could deliver an email twice
+  const maxAttempts = idempotent ? GMAIL_API_MAX_RETRIES + 1 : 1;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fetchOnce<T>(url, `${method} ${endpoint}`, options) as ApiResponse<T> & Partial<Extra>;
+    } catch (error) {
+      if (!(error instanceof GmailApiError) || !error.retryable || attempt >= maxAttempts) {
+        throw error;
+      }
+      const delay = RETRY_BASE_DELAY_MS * 2 ** (attempt - 1) + Math.random() * RETRY_BASE_DELAY_MS;
+      console.warn(JSON.stringify({ gmailApiRetry: error.endpoint, status: error.status, attempt, delay: Math.round(delay) }));
+      await sleep(delay);
+    }
+  }
 }
 
-export async function listEmails(maxResults: number = 5, query?: string): Promise<EmailMessage[]> {
+// Lookups by ID return null instead of throwing when the item does not exist
+async function nullIfNotFound<T>(request: Promise<T | null>): Promise<T | null> {
+  try {
+    return await request;
+  } catch (error) {
+    if (error instanceof GmailApiError && error.kind === 'not_found') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+// Mailbox changes are written to the audit log with their outcome, failures included
+async function audited<T>(
+  action: string,
+  messageIds: string[],
+  run: () => Promise<T>,
+  { detail, succeeded = result => Boolean(result), describe }: {
+    detail?: string;
+    succeeded?: (result: T) => boolean;
+    describe?: (result: T) => string | undefined; // appended to detail once the result is known
+  } = {}
+): Promise<T> {
+  const userId = gmailUser.getStore();
+  try {
+    const result = await run();
+    if (userId) {
+      const outcome = succeeded(result) ? 'success' : 'failure';
+      const fullDetail = [detail, describe?.(result)].filter(Boolean).join(' · ') || undefined;
+      await recordAudit(userId, { action, messageIds, outcome, detail: fullDetail });
+    }
+    return result;
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+    // Nothing reached the mailbox when the account isn't connected, so there is nothing to log
+    if (userId && !(error instanceof GmailNotConnectedError)) {
+      await recordAudit(userId, { action, messageIds, outcome: 'error', detail, error: errorMsg });
+    }
+    throw error;
+  }
+}
+
+const sendSucceeded = (result: { success: boolean }) => result.success;
+
+// One page of list or search results; nextPageToken is set when more results exist
+export interface EmailPage {
+  emails: EmailMessage[];
+  nextPageToken?: string;
+}
+
+// Most messages batch operations will touch in one go (override with BATCH_MAX_MESSAGES)
+export const BATCH_MAX_MESSAGES = parseInt(process.env.BATCH_MAX_MESSAGES || '') || 500;
+
+// Largest page the Gmail API returns
+const MAX_PAGE_SIZE = 100;
+
+export async function listEmailPage(maxResults: number = 5, query?: string, pageToken?: string): Promise<EmailPage> {
   const params = new URLSearchParams();
   params.set('maxResults', maxResults.toString());
   if (query) {
     params.set('q', query);
   }
+  if (pageToken) {
+    params.set('pageToken', pageToken);
+  }
 
   const result = await callGmailApi<EmailMessage[]>(`/api/emails?${params}`);
-  return result.emails || [];
+  return { emails: result.emails || [], nextPageToken: result.nextPageToken };
 }
 
-export async function searchEmails(query: string, maxResults: number = 5): Promise<EmailMessage[]> {
+export async function listEmails(maxResults: number = 5, query?: string): Promise<EmailMessage[]> {
+  return (await listEmailPage(maxResults, query)).emails;
+}
+
+export async function searchEmailPage(query: string, maxResults: number = 5, pageToken?: string): Promise<EmailPage> {
   const result = await callGmailApi<EmailMessage[]>('/api/emails/search', 'POST', {
     query,
     maxResults,
-  });
-  return result.emails || [];
+    ...(pageToken && { pageToken }),
+  }, { idempotent: true });
+  return { emails: result.emails || [], nextPageToken: result.nextPageToken };
+}
+
+export async function searchEmails(query: string, maxResults: number = 5): Promise<EmailMessage[]> {
+  return (await searchEmailPage(query, maxResults)).emails;
+}
+
+// Walk every page of a search, stopping once `limit` messages have been yielded
+export async function* iterateSearchResults(
+  query: string,
+  limit: number = BATCH_MAX_MESSAGES
+): AsyncGenerator<EmailMessage[]> {
+  let remaining = limit;
+  let pageToken: string | undefined;
+
+  while (remaining > 0) {
+    const page = await searchEmailPage(query, Math.min(remaining, MAX_PAGE_SIZE), pageToken);
+    const emails = page.emails.slice(0, remaining);
+    if (emails.length === 0) return;
+
+    yield emails;
+    remaining -= emails.length;
+    pageToken = page.nextPageToken;
+    if (!pageToken) return;
+  }
+}
+
+// Collect the IDs of every message matching a query, up to `limit`
+// Also returns each match's current labels, so callers can tell what a change will alter
+export async function collectMessageIds(
+  query: string,
+  limit: number = BATCH_MAX_MESSAGES
+): Promise<{ messageIds: string[]; labelsById: Map<string, string[]>; limitReached: boolean }> {
+  const messageIds: string[] = [];
+  const labelsById = new Map<string, string[]>();
+  for await (const emails of iterateSearchResults(query, limit)) {
+    for (const email of emails) {
+      messageIds.push(email.id);
+      labelsById.set(email.id, email.labels);
+    }
+  }
+  return { messageIds, labelsById, limitReached: messageIds.length >= limit };
 }
 
 export async function getEmail(messageId: string): Promise<EmailMessage | null> {
-  const result = await callGmailApi<EmailMessage>(`/api/emails/${messageId}`);
-  return result.email || null;
+  const result = await nullIfNotFound(callGmailApi<EmailMessage>(`/api/emails/${messageId}`));
+  return result?.email || null;
 }
 
-export async function sendEmail(
+// Messages fetched at once when looking up labels
+const MESSAGE_FETCH_CONCURRENCY = 10;
+
+// Current labels of each message; messages that don't exist are left out
+export async function getMessageLabels(messageIds: string[]): Promise<Map<string, string[]>> {
+  const labelsById = new Map<string, string[]>();
+  for (let i = 0; i < messageIds.length; i += MESSAGE_FETCH_CONCURRENCY) {
+    const chunk = messageIds.slice(i, i + MESSAGE_FETCH_CONCURRENCY);
+    const emails = await Promise.all(chunk.map(id => getEmail(id)));
+    emails.forEach((email, j) => {
+      if (email) labelsById.set(chunk[j], email.labels);
+    });
+  }
+  return labelsById;
+}
+
+export async function listAttachments(messageId: string): Promise<Attachment[]> {
+  const result = await callGmailApi<Attachment[]>(`/api/emails/${messageId}/attachments`);
+  return result.attachments || [];
+}
+
+export interface AttachmentContent extends Attachment {
+  data: Buffer;
+}
+
+export async function downloadAttachment(
+  messageId: string,
+  attachmentId: string
+): Promise<AttachmentContent | null> {
+  const result = await callGmailApi<Attachment & { data: string }>(
+    `/api/emails/${messageId}/attachments/${attachmentId}`
+  );
+  if (!result.success || !result.data) {
+    return null;
+  }
+  // Gmail returns attachment bytes as URL-safe base64
+  return { ...result.data, data: Buffer.from(result.data.data, 'base64url') };
+}
+
+export async function getThread(threadId: string): Promise<EmailThread | null> {
+  const result = await nullIfNotFound(callGmailApi<EmailThread>(`/api/threads/${threadId}`));
+  return result?.thread || null;
+}
+
+// Accepts either a thread ID or the ID of any message in the thread
+export async function getThreadForId(id: string): Promise<EmailThread | null> {
+  const thread = await getThread(id);
+  if (thread) {
+    return thread;
+  }
+
+  const email = await getEmail(id);
+  return email ? getThread(email.threadId) : null;
+}
+
+export interface SendOptions {
+  cc?: string[];
+  threadId?: string;
+  inReplyTo?: string;
+  references?: string;
+}
+
+async function deliverEmail(
   to: string[],
   subject: string,
-  body: string
+  body: string,
+  options: SendOptions = {}
 ): Promise<{ success: boolean; error?: string }> {
   const result = await callGmailApi<{ id: string }>('/api/emails/send', 'POST', {
     to,
     subject,
     body,
+    ...options,
   });
   return { success: result.success, error: result.error };
 }
 
+function recipientDetail(to: string[], cc?: string[]): string {
+  return `to ${to.join(', ')}${cc?.length ? ` cc ${cc.join(', ')}` : ''}`;
+}
+
+export async function sendEmail(
+  to: string[],
+  subject: string,
+  body: string,
+  options: SendOptions = {}
+): Promise<{ success: boolean; error?: string }> {
+  return audited('send', [], () => deliverEmail(to, subject, body, options), {
+    detail: recipientDetail(to, options.cc),
+    succeeded: sendSucceeded,
+  });
+}
+
+// Extract bare addresses from a header like `"Doe, Jane" <jane@x.com>, bob@y.com`
+function parseAddressList(header?: string): string[] {
+  if (!header) return [];
+  const matches = header.match(/[^\s<>",;]+@[^\s<>",;]+/g) || [];
+  return matches.map(addr => addr.toLowerCase());
+}
+
+// The connected account's own address, or undefined if the API can't tell
+export async function getAccountAddress(): Promise<string | undefined> {
+  const result = await nullIfNotFound(callGmailApi<never, { profile: { emailAddress: string } }>('/api/profile'));
+  return result?.profile?.emailAddress?.toLowerCase();
+}
+
+// Addresses that belong to the user, so replies never go back to themselves
+async function ownAddresses(email: EmailMessage): Promise<Set<string>> {
+  const own = new Set(parseAddressList(email.deliveredTo));
+  const profileAddress = await getAccountAddress().catch(() => undefined);
+  if (profileAddress) own.add(profileAddress);
+  return own;
+}
+
+// A reply goes to Reply-To when set, else the sender. A reply to the user's own message
+// goes to that message's recipients instead, as Gmail does.
+function replyRecipients(email: EmailMessage, own: Set<string>): { to: string[]; sentByUser: boolean } {
+  const sentByUser = email.labels.includes('SENT') || parseAddressList(email.from).some(addr => own.has(addr));
+  if (sentByUser) {
+    const to = parseAddressList(email.to).filter(addr => !own.has(addr));
+    if (to.length > 0) return { to, sentByUser };
+  }
+  const to = email.replyTo ? parseAddressList(email.replyTo) : parseAddressList(email.from).slice(0, 1);
+  return { to, sentByUser };
+}
+
+export interface ReplyRecipients {
+  to: string[];
+  cc: string[];
+}
+
+// Reply all keeps everyone else on the original on copy, except the user and whoever is already in To
+async function resolveReplyRecipients(original: EmailMessage, replyAll: boolean): Promise<ReplyRecipients> {
+  const own = await ownAddresses(original);
+  const { to, sentByUser } = replyRecipients(original, own);
+  if (!replyAll) return { to, cc: [] };
+
+  const others = sentByUser
+    ? parseAddressList(original.cc)
+    : [...parseAddressList(original.to), ...parseAddressList(original.cc)];
+  const cc = [...new Set(others)].filter(addr => !to.includes(addr) && !own.has(addr));
+  return { to, cc };
+}
+
+// Who a reply would go to, so it can be shown before sending; null if the email is not found
+export async function getReplyRecipients(messageId: string, replyAll: boolean): Promise<ReplyRecipients | null> {
+  const original = await getEmail(messageId);
+  return original ? resolveReplyRecipients(original, replyAll) : null;
+}
+
+function prefixSubject(prefix: string, subject: string): string {
+  return subject.toLowerCase().startsWith(prefix.toLowerCase()) ? subject : `${prefix} ${subject}`;
+}
+
+function quoteOriginal(email: EmailMessage): string {
+  const original = email.body || email.snippet;
+  const quoted = original.split('\n').map(line => `> ${line}`).join('\n');
+  return `On ${email.date}, ${email.from} wrote:\n${quoted}`;
+}
+
+// Threading headers so Gmail keeps the reply in the same conversation
+function threadingOptions(email: EmailMessage): SendOptions {
+  const references = [email.references, email.messageIdHeader].filter(Boolean).join(' ');
+  return {
+    threadId: email.threadId,
+    inReplyTo: email.messageIdHeader,
+    references: references || undefined,
+  };
+}
+
+// recipients, when given, are the ones the user approved (see getReplyRecipients)
+export async function replyToEmail(
+  messageId: string,
+  body: string,
+  recipients?: ReplyRecipients
+): Promise<{ success: boolean; error?: string }> {
+  return audited('reply', [messageId], async () => {
+    const original = await getEmail(messageId);
+    if (!original) {
+      return { success: false, error: `Email not found with ID: ${messageId}` };
+    }
+
+    const { to } = recipients ?? await resolveReplyRecipients(original, false);
+    return deliverEmail(
+      to,
+      prefixSubject('Re:', original.subject),
+      `${body}\n\n${quoteOriginal(original)}`,
+      threadingOptions(original)
+    );
+  }, { succeeded: sendSucceeded });
+}
+
+export async function replyAllToEmail(
+  messageId: string,
+  body: string,
+  recipients?: ReplyRecipients
+): Promise<{ success: boolean; error?: string }> {
+  return audited('reply_all', [messageId], async () => {
+    const original = await getEmail(messageId);
+    if (!original) {
+      return { success: false, error: `Email not found with ID: ${messageId}` };
+    }
+
+    const { to, cc } = recipients ?? await resolveReplyRecipients(original, true);
+    return deliverEmail(
+      to,
+      prefixSubject('Re:', original.subject),
+      `${body}\n\n${quoteOriginal(original)}`,
+      { ...threadingOptions(original), cc: cc.length > 0 ? cc : undefined }
+    );
+  }, { succeeded: sendSucceeded });
+}
+
+export async function forwardEmail(
+  messageId: string,
+  to: string[],
+  note: string = ''
+): Promise<{ success: boolean; error?: string }> {
+  return audited('forward', [messageId], async () => {
+    const original = await getEmail(messageId);
+    if (!original) {
+      return { success: false, error: `Email not found with ID: ${messageId}` };
+    }
+
+    const forwarded = [
+      '---------- Forwarded message ---------',
+      `From: ${original.from}`,
+      `Date: ${original.date}`,
+      `Subject: ${original.subject}`,
+      `To: ${original.to}`,
+      '',
+      original.body || original.snippet,
+    ].join('\n');
+
+    return deliverEmail(
+      to,
+      prefixSubject('Fwd:', original.subject),
+      note ? `${note}\n\n${forwarded}` : forwarded,
+      { threadId: original.threadId }
+    );
+  }, { detail: recipientDetail(to), succeeded: sendSucceeded });
+}
+
+export async function listDrafts(maxResults: number = 10): Promise<Draft[]> {
+  const result = await callGmailApi<Draft[]>(`/api/drafts?maxResults=${maxResults}`);
+  return result.drafts || [];
+}
+
+export async function getDraft(draftId: string): Promise<Draft | null> {
+  const result = await nullIfNotFound(callGmailApi<Draft>(`/api/drafts/${draftId}`));
+  return result?.draft || null;
+}
+
+export async function createDraft(
+  to: string[],
+  subject: string,
+  body: string,
+  options: SendOptions = {}
+): Promise<Draft | null> {
+  const result = await callGmailApi<Draft>('/api/drafts', 'POST', {
+    to,
+    subject,
+    body,
+    ...options,
+  });
+  return result.success ? result.draft || null : null;
+}
+
+export async function updateDraft(
+  draftId: string,
+  to: string[],
+  subject: string,
+  body: string,
+  options: SendOptions = {}
+): Promise<Draft | null> {
+  const result = await callGmailApi<Draft>(`/api/drafts/${draftId}`, 'PUT', {
+    to,
+    subject,
+    body,
+    ...options,
+  });
+  return result.success ? result.draft || null : null;
+}
+
+export async function deleteDraft(draftId: string): Promise<boolean> {
+  return audited('delete_draft', [draftId], async () => {
+    const result = await callGmailApi(`/api/drafts/${draftId}`, 'DELETE');
+    return result.success;
+  });
+}
+
+export async function sendDraft(draftId: string): Promise<{ success: boolean; error?: string }> {
+  return audited('send_draft', [], async () => {
+    const result = await callGmailApi<{ id: string }>(`/api/drafts/${draftId}/send`, 'POST');
+    return { success: result.success, error: result.error };
+  }, { detail: `draft ${draftId}`, succeeded: sendSucceeded });
+}
+
 export async function markAsRead(messageId: string): Promise<boolean> {
-  const result = await callGmailApi(`/api/emails/${messageId}/read`, 'POST');
-  return result.success;
+  return audited('mark_read', [messageId], async () => {
+    const result = await callGmailApi(`/api/emails/${messageId}/read`, 'POST');
+    return result.success;
+  });
+}
+
+export async function markAsUnread(messageId: string): Promise<boolean> {
+  return audited('mark_unread', [messageId], async () => {
+    const result = await callGmailApi(`/api/emails/${messageId}/read`, 'DELETE');
+    return result.success;
+  });
 }
 
 export async function trashEmail(messageId: string): Promise<boolean> {
-  const result = await callGmailApi(`/api/emails/${messageId}`, 'DELETE');
-  return result.success;
+  return audited('trash', [messageId], async () => {
+    const result = await callGmailApi(`/api/emails/${messageId}`, 'DELETE');
+    return result.success;
+  });
 }
 
-export async function createLabel(name: string): Promise<{ id: string; name: string } | null> {
-  const result = await callGmailApi<{ id: string; name: string }>('/api/labels', 'POST', { name });
-  return result.success ? (result.data || result as unknown as { id: string; name: string }) : null;
+export async function untrashEmail(messageId: string): Promise<boolean> {
+  return audited('untrash', [messageId], async () => {
+    const result = await callGmailApi(`/api/emails/${messageId}/untrash`, 'POST');
+    return result.success;
+  });
+}
+
+// Skips the trash - the message cannot be recovered
+export async function deleteEmailPermanently(messageId: string): Promise<boolean> {
+  return audited('delete_permanently', [messageId], async () => {
+    const result = await callGmailApi(`/api/emails/${messageId}/permanent`, 'DELETE');
+    return result.success;
+  });
+}
+
+// Gmail only accepts colors from its own palette, so labels are colored by name
+export const LABEL_COLORS: Record<string, LabelColor> = {
+  red: { textColor: '#ffffff', backgroundColor: '#fb4c2f' },
+  orange: { textColor: '#ffffff', backgroundColor: '#ffad47' },
+  yellow: { textColor: '#000000', backgroundColor: '#fad165' },
+  green: { textColor: '#ffffff', backgroundColor: '#16a766' },
+  teal: { textColor: '#ffffff', backgroundColor: '#2da2bb' },
+  blue: { textColor: '#ffffff', backgroundColor: '#4a86e8' },
+  purple: { textColor: '#ffffff', backgroundColor: '#a479e2' },
+  pink: { textColor: '#ffffff', backgroundColor: '#f691b3' },
+  gray: { textColor: '#ffffff', backgroundColor: '#999999' },
+};
+
+export async function createLabel(name: string, color?: LabelColor): Promise<{ id: string; name: string } | null> {
+  return audited('create_label', [], async () => {
+    // The label comes back either under `data` or at the top level of the response
+    const result = await callGmailApi<{ id: string; name: string }, { id: string; name: string }>('/api/labels', 'POST', { name, color });
+    invalidateLabelCache();
+    if (!result.success) {
+      return null;
+    }
+    return result.data || (result.id ? { id: result.id, name: result.name || name } : null);
+  }, { detail: `label "${name}"` });
+}
+
+// Rename and/or recolor a label; fields left out are unchanged
+export async function updateLabel(
+  labelId: string,
+  changes: { name?: string; color?: LabelColor }
+): Promise<boolean> {
+  const detail = [`label ${labelId}`, changes.name && `renamed to "${changes.name}"`, changes.color && 'recolored']
+    .filter(Boolean).join(' ');
+  return audited('update_label', [], async () => {
+    const result = await nullIfNotFound(callGmailApi(`/api/labels/${labelId}`, 'PATCH', changes, { idempotent: true }));
+    invalidateLabelCache();
+    return result?.success ?? false;
+  }, { detail });
 }
 
 export async function deleteLabel(labelId: string): Promise<boolean> {
-  const result = await callGmailApi(`/api/labels/${labelId}`, 'DELETE');
-  return result.success;
+  return audited('delete_label', [], async () => {
+    const result = await callGmailApi(`/api/labels/${labelId}`, 'DELETE');
+    invalidateLabelCache();
+    return result.success;
+  }, { detail: `label ${labelId}` });
 }
 
 export async function starEmail(messageId: string): Promise<boolean> {
-  const result = await callGmailApi(`/api/emails/${messageId}/star`, 'POST');
-  return result.success;
+  return audited('star', [messageId], async () => {
+    const result = await callGmailApi(`/api/emails/${messageId}/star`, 'POST');
+    return result.success;
+  });
 }
 
 export async function unstarEmail(messageId: string): Promise<boolean> {
-  const result = await callGmailApi(`/api/emails/${messageId}/star`, 'DELETE');
-  return result.success;
+  return audited('unstar', [messageId], async () => {
+    const result = await callGmailApi(`/api/emails/${messageId}/star`, 'DELETE');
+    return result.success;
+  });
 }
 
 export async function archiveEmail(messageId: string): Promise<boolean> {
-  const result = await callGmailApi(`/api/emails/${messageId}/archive`, 'POST');
-  return result.success;
+  return audited('archive', [messageId], async () => {
+    const result = await callGmailApi(`/api/emails/${messageId}/archive`, 'POST');
+    return result.success;
+  });
+}
+
+// Audit name for a batch label change, e.g. batch_archive; anything else is batch_label
+function batchActionName(add: string[] = [], remove: string[] = []): string {
+  if (add.includes('TRASH')) return 'batch_trash';
+  if (add.includes('STARRED')) return 'batch_star';
+  if (remove.includes('STARRED')) return 'batch_unstar';
+  if (add.includes('INBOX')) return 'batch_unarchive';
+  if (add.length === 0 && remove.length === 1 && remove[0] === 'INBOX') return 'batch_archive';
+  if (add.length === 0 && remove.length === 1 && remove[0] === 'UNREAD') return 'batch_read';
+  if (add.length === 1 && add[0] === 'UNREAD' && remove.length === 0) return 'batch_unread';
+  return 'batch_label';
 }
 
+// Which messages a batch change reached; chunks sent before a failure stay applied
+export interface BatchModifyResult {
+  modified: string[];
+  failed: string[];
+  error?: string;
+}
+
+// Large ID lists are sent in chunks the Gmail API accepts; the first failing chunk stops the
+// rest, and everything from it on is reported as failed
 export async function batchModifyEmails(
   messageIds: string[],
   addLabelIds?: string[],
   removeLabelIds?: string[]
-): Promise<boolean> {
-  const result = await callGmailApi('/api/emails/batch/labels', 'POST', {
-    messageIds,
-    addLabelIds,
-    removeLabelIds,
+): Promise<BatchModifyResult> {
+  const detail = [...(addLabelIds ?? []).map(id => `+${id}`), ...(removeLabelIds ?? []).map(id => `-${id}`)].join(' ');
+  return audited(batchActionName(addLabelIds, removeLabelIds), messageIds, async () => {
+    for (let i = 0; i < messageIds.length; i += MAX_PAGE_SIZE) {
+      let error: string | undefined;
+      try {
+        const result = await callGmailApi('/api/emails/batch/labels', 'POST', {
+          messageIds: messageIds.slice(i, i + MAX_PAGE_SIZE),
+          addLabelIds,
+          removeLabelIds,
+        });
+        error = result.success ? undefined : result.error || 'Unknown error';
+      } catch (e) {
+        // Nothing was applied yet, so there is no partial result to report
+        if (i === 0 || e instanceof GmailNotConnectedError) throw e;
+        error = e instanceof Error ? e.message : 'Unknown error';
+      }
+      if (error !== undefined) {
+        return { modified: messageIds.slice(0, i), failed: messageIds.slice(i), error };
+      }
+    }
+    return { modified: messageIds, failed: [] };
+  }, {
+    detail,
+    succeeded: result => result.failed.length === 0,
+    describe: result => result.error && result.modified.length > 0
+      ? `${result.modified.length} of ${messageIds.length} changed, then: ${result.error}`
+      : result.error,
   });
-  return result.success;
 }
 
-export async function getLabels(): Promise<Array<{ id: string; name: string; type: string }>> {
-  const result = await callGmailApi<Array<{ id: string; name: string; type: string }>>('/api/labels');
-  return (result as unknown as { labels?: Array<{ id: string; name: string; type: string }> }).labels || [];
+// Label lists are cached per user so name lookups don't cost an API call each time;
+// creating, updating or deleting a label clears the cache
+const LABEL_CACHE_TTL_MS = 5 * 60 * 1000;
+const labelCache = new Map<string, { labels: GmailLabel[]; fetchedAt: number }>();
+
+function invalidateLabelCache() {
+  const userId = gmailUser.getStore();
+  if (userId) labelCache.delete(userId);
+}
+
+export async function getLabels(): Promise<GmailLabel[]> {
+  const result = await callGmailApi<GmailLabel[]>('/api/labels');
+  const labels = result.labels || [];
+  const userId = gmailUser.getStore();
+  if (userId) labelCache.set(userId, { labels, fetchedAt: Date.now() });
+  return labels;
+}
+
+async function getCachedLabels(): Promise<{ labels: GmailLabel[]; fresh: boolean }> {
+  const cached = labelCache.get(gmailUser.getStore() ?? '');
+  if (cached && Date.now() - cached.fetchedAt < LABEL_CACHE_TTL_MS) {
+    return { labels: cached.labels, fresh: false };
+  }
+  return { labels: await getLabels(), fresh: true };
+}
+
+// A label by ID or by name (case-insensitive); null if neither matches
+export async function findLabel(nameOrId: string): Promise<GmailLabel | null> {
+  const wanted = nameOrId.trim();
+  const match = (labels: GmailLabel[]) =>
+    labels.find(l => l.id === wanted) ?? labels.find(l => l.name.toLowerCase() === wanted.toLowerCase()) ?? null;
+
+  const { labels, fresh } = await getCachedLabels();
+  // A miss on cached data may be a label made in Gmail since, so look once more
+  return match(labels) ?? (fresh ? null : match(await getLabels()));
+}
+
+// A single label with its message counts
+export async function getLabel(labelId: string): Promise<GmailLabel | null> {
+  const result = await nullIfNotFound(callGmailApi<GmailLabel>(`/api/labels/${labelId}`));
+  return result?.data || null;
+}
+
+// Labels looked up at once when counting unread mail
+const LABEL_COUNT_CONCURRENCY = 10;
+
+// Inbox and user labels with their unread counts
+export async function getUnreadCounts(): Promise<GmailLabel[]> {
+  const labels = (await getLabels()).filter(l => l.type === 'user' || l.id === 'INBOX');
+  const counted: GmailLabel[] = [];
+  for (let i = 0; i < labels.length; i += LABEL_COUNT_CONCURRENCY) {
+    const batch = await Promise.all(labels.slice(i, i + LABEL_COUNT_CONCURRENCY).map(l => getLabel(l.id)));
+    counted.push(...batch.filter((l): l is GmailLabel => l !== null));
+  }
+  return counted;
+}
+
+export async function getVacationSettings(): Promise<VacationSettings | null> {
+  const result = await callGmailApi<VacationSettings>('/api/settings/vacation');
+  return result.vacation || null;
+}
+
+export async function setVacationSettings(settings: VacationSettings): Promise<boolean> {
+  return audited('vacation', [], async () => {
+    const result = await callGmailApi('/api/settings/vacation', 'PUT', { ...settings });
+    return result.success;
+  }, { detail: settings.enableAutoReply ? 'auto-reply on' : 'auto-reply off' });
+}
+
+// Parse a YYYY-MM-DD date (local time); endOfDay moves it to 23:59:59.999
+export function parseDateInput(value: string, endOfDay: boolean = false): number | null {
+  const match = value.trim().match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (!match) {
+    return null;
+  }
+  const [year, month, day] = [parseInt(match[1]), parseInt(match[2]), parseInt(match[3])];
+  const date = new Date(year, month - 1, day);
+  // Date rolls days that do not exist (2024-02-30) into the next month; reject those
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+  if (endOfDay) {
+    date.setHours(23, 59, 59, 999);
+  }
+  return date.getTime();
 }
 
 export interface UnsubscribeInfo {
@@ -156,8 +929,16 @@ export interface UnsubscribeInfo {
 }
 
 export async function getUnsubscribeInfo(messageId: string): Promise<UnsubscribeInfo | null> {
-  const result = await callGmailApi<UnsubscribeInfo>(`/api/emails/${messageId}/unsubscribe`);
-  return result.success ? (result as unknown as UnsubscribeInfo) : null;
+  const result = await nullIfNotFound(callGmailApi<never, UnsubscribeInfo>(`/api/emails/${messageId}/unsubscribe`));
+  if (!result?.success || !result.email) {
+    return null;
+  }
+  return {
+    email: result.email,
+    unsubscribeLinks: result.unsubscribeLinks || [],
+    unsubscribeEmail: result.unsubscribeEmail ?? null,
+    hasUnsubscribe: result.hasUnsubscribe ?? false,
+  };
 }
 
 export interface MarketingEmail extends EmailMessage {
@@ -167,8 +948,39 @@ export interface MarketingEmail extends EmailMessage {
 }
 
 export async function findMarketingEmails(maxResults: number = 10): Promise<MarketingEmail[]> {
-  const result = await callGmailApi<MarketingEmail[]>(`/api/emails/marketing?maxResults=${maxResults}`);
-  return (result as unknown as { emails?: MarketingEmail[] }).emails || [];
+  const result = await callGmailApi<never, { emails: MarketingEmail[] }>(`/api/emails/marketing?maxResults=${maxResults}`);
+  return (result.emails as MarketingEmail[] | undefined) || [];
+}
+
+export function formatUnreadCountsForSlack(labels: GmailLabel[]): string {
+  const inbox = labels.find(l => l.id === 'INBOX');
+  const others = labels
+    .filter(l => l.id !== 'INBOX' && (l.messagesUnread ?? 0) > 0)
+    .sort((a, b) => (b.messagesUnread ?? 0) - (a.messagesUnread ?? 0));
+
+  let result = `📬 *Inbox:* ${inbox?.messagesUnread ?? 0} unread\n\n`;
+  if (others.length === 0) {
+    return result + '_No unread mail under other labels._';
+  }
+  result += '*By label:*\n';
+  result += others.map(l => `• ${l.name}: ${l.messagesUnread} unread`).join('\n');
+  return result;
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function formatAttachmentListForSlack(attachments: Attachment[]): string {
+  if (attachments.length === 0) {
+    return 'No attachments.';
+  }
+
+  return attachments.map((a, i) =>
+    `${i + 1}. *${a.filename}* (${a.mimeType}, ${formatBytes(a.size)}) · ID: \`${a.attachmentId}\``
+  ).join('\n');
 }
 
 export function formatEmailForSlack(email: EmailMessage, includeBody: boolean = false): string {
@@ -179,6 +991,10 @@ export function formatEmailForSlack(email: EmailMessage, includeBody: boolean =
     `*ID:* \`${email.id}\``,
   ];
 
+  if (email.attachments && email.attachments.length > 0) {
+    lines.push(`*Attachments:* ${email.attachments.map(a => `📎 ${a.filename} (${formatBytes(a.size)})`).join(', ')}`);
+  }
+
   if (includeBody && email.body) {
     const truncatedBody = email.body.length > 500
       ? email.body.substring(0, 500) + '...'
@@ -205,3 +1021,87 @@ export function formatEmailListForSlack(emails: EmailMessage[]): string {
     ].join('\n');
   }).join('\n\n');
 }
+
+// Drop the quoted history that replies carry so each message shows only what is new
+function stripQuotedText(body: string): string {
+  const lines = body.split('\n');
+  const cutoff = lines.findIndex(line => /^On .+wrote:\s*$/.test(line.trim()) || line.startsWith('>'));
+  return (cutoff === -1 ? lines : lines.slice(0, cutoff)).join('\n').trim();
+}
+
+export function formatThreadForSlack(thread: EmailThread, maxBodyLength: number = 300): string {
+  if (thread.messages.length === 0) {
+    return 'This thread has no messages.';
+  }
+
+  const header = `*${thread.messages[0].subject}* (${thread.messages.length} messages, thread \`${thread.id}\`)`;
+
+  const messages = thread.messages.map((email, i) => {
+    const body = stripQuotedText(email.body || email.snippet) || email.snippet;
+    const trimmedBody = body.length > maxBodyLength
+      ? body.substring(0, maxBodyLength) + '...'
+      : body;
+    return [
+      `*${i + 1}. ${email.from}*`,
+      `   ${email.date} · ID: \`${email.id}\``,
+      `>>> ${trimmedBody}`,
+    ].join('\n');
+  });
+
+  return [header, ...messages].join('\n\n');
+}
+
+export function formatVacationForSlack(settings: VacationSettings): string {
+  if (!settings.enableAutoReply) {
+    return '🔕 Vacation responder is *off*';
+  }
+
+  const formatDate = (ms: number) => new Date(ms).toISOString().split('T')[0];
+  const lines = ['🌴 Vacation responder is *on*'];
+  if (settings.startTime || settings.endTime) {
+    lines.push(`*Dates:* ${settings.startTime ? formatDate(settings.startTime) : 'now'} → ${settings.endTime ? formatDate(settings.endTime) : 'until turned off'}`);
+  }
+  if (settings.responseSubject) {
+    lines.push(`*Subject:* ${settings.responseSubject}`);
+  }
+  if (settings.restrictToContacts || settings.restrictToDomain) {
+    lines.push(`*Only replies to:* ${settings.restrictToContacts ? 'my contacts' : 'my domain'}`);
+  }
+  if (settings.responseBodyPlainText) {
+    lines.push(`\n>>> ${settings.responseBodyPlainText}`);
+  }
+  return lines.join('\n');
+}
+
+export function formatDraftForSlack(draft: Draft): string {
+  const { message } = draft;
+  const lines = [
+    `*To:* ${message.to || '_(no recipient)_'}`,
+    `*Subject:* ${message.subject || '_(no subject)_'}`,
+    `*Draft ID:* \`${draft.id}\``,
+  ];
+
+  const body = message.body || message.snippet;
+  if (body) {
+    const truncatedBody = body.length > 500
+      ? body.substring(0, 500) + '...'
+      : body;
+    lines.push(`\n>>> ${truncatedBody}`);
+  }
+
+  return lines.join('\n');
+}
+
+export function formatDraftListForSlack(drafts: Draft[]): string {
+  if (drafts.length === 0) {
+    return 'No drafts found.';
+  }
+
+  return drafts.map((draft, i) => {
+    return [
+      `*${i + 1}. ${draft.message.subject || '(no subject)'}*`,
+      `   To: ${draft.message.to || '(no recipient)'}`,
+      `   Draft ID: \`${draft.id}\``,
+    ].join('\n');
+  }).join('\n\n');
+}
@@ -1,24 +1,351 @@
 import pkg from '@slack/bolt';
-const { App, LogLevel } = pkg;
+import type { AllMiddlewareArgs, KnownBlock, Middleware, SlackCommandMiddlewareArgs } from '@slack/bolt';
+import express from 'express';
+const { App, ExpressReceiver, LogLevel } = pkg;
 import {
-  listEmails,
-  searchEmails,
+  listEmailPage,
+  searchEmailPage,
   getEmail,
+  getMessageLabels,
+  getThreadForId,
+  starEmail,
+  unstarEmail,
+  archiveEmail,
   sendEmail,
   markAsRead,
   trashEmail,
+  untrashEmail,
+  findLabel,
+  getLabel,
+  getUnreadCounts,
+  formatUnreadCountsForSlack,
+  listDrafts,
+  getDraft,
+  createDraft,
+  deleteDraft,
+  sendDraft,
   formatEmailForSlack,
   formatEmailListForSlack,
+  formatThreadForSlack,
+  formatDraftForSlack,
+  getVacationSettings,
+  setVacationSettings,
+  parseDateInput,
+  formatDraftListForSlack,
+  formatVacationForSlack,
+  withGmailUser,
+  type EmailMessage,
 } from './gmail-client.js';
-import { processNaturalLanguageRequest, clearConversation } from './gmail-assistant.js';
+import {
+  processNaturalLanguageRequest,
+  clearConversation,
+  clearAllConversations,
+  type ToolConfirmationHandler,
+  type FileUploadHandler,
+  type AssistantHooks,
+} from './gmail-assistant.js';
+import {
+  CONFIRM_ACTION_ID,
+  CANCEL_ACTION_ID,
+  TYPED_CONFIRM_ACTION_ID,
+  TYPED_CONFIRM_VIEW_ID,
+  TYPED_CONFIRMATION_WORD,
+  createConfirmation,
+  cancelConfirmation,
+  getPendingConfirmation,
+  resolveConfirmation,
+  buildTypedConfirmationModal,
+  summarizeToolCall,
+  buildConfirmationBlocks,
+} from './confirmations.js';
+import {
+  hasGmailCredentials,
+  setGmailCredentials,
+  deleteGmailCredentials,
+  type CredentialType,
+} from './credentials.js';
+import { createStore } from './store.js';
+import { logRequest } from './request-log.js';
+import { createProgressReporter } from './progress.js';
+import {
+  UNDO_ACTION_ID,
+  recordUndoable,
+  listUndoable,
+  undoAction,
+  parseUndoRequest,
+  parseUndoActionValue,
+  formatUndoListForSlack,
+  buildUndoBlocks,
+  inverseLabelChanges,
+  type UndoableAction,
+  type UndoChange,
+} from './undo.js';
+import {
+  withAuditContext,
+  listAuditEntries,
+  formatAuditEntriesForSlack,
+  type AuditSource,
+  type AuditFilter,
+} from './audit.js';
+import {
+  EMAIL_ACTIONS,
+  SHOW_MORE_ACTION_ID,
+  SNOOZE_ACTION_ID,
+  SHARE_ACTION_ID,
+  MAX_LIST_PAGE_SIZE,
+  createEmailListView,
+  getEmailListView,
+  parseEmailActionValue,
+  parseSnoozeActionValue,
+  buildEmailListBlocks,
+  buildTextBlocks,
+  escapeMrkdwn,
+  type EmailListNextPage,
+} from './email-blocks.js';
+import {
+  DEFAULT_DIGEST_QUERY,
+  parseDigestTime,
+  getDigestSettings,
+  saveDigestSettings,
+  setDigestEnabled,
+  deleteDigestSettings,
+  formatDigestSettingsForSlack,
+  sendDigest,
+  startDigestScheduler,
+} from './digest.js';
+import {
+  addWatch,
+  listWatches,
+  removeWatch,
+  formatWatchListForSlack,
+  checkAllWatches,
+  startWatchPoller,
+  parseGmailPushNotification,
+} from './watcher.js';
+import {
+  parseRuleDefinition,
+  addRule,
+  listRules,
+  getRule,
+  testRule,
+  setRuleEnabled,
+  deleteRule,
+  describeRule,
+  formatRuleListForSlack,
+  startRulesScheduler,
+} from './rules.js';
+import {
+  SNOOZE_PRESETS,
+  resolveSnoozeTime,
+  snoozeEmail,
+  listSnoozes,
+  formatSnoozeTime,
+  formatSnoozeListForSlack,
+  startSnoozeScheduler,
+} from './snooze.js';
+import {
+  SHARE_VIEW_ID,
+  SHARE_OPTIONS_ACTION_ID,
+  buildShareModal,
+  buildSharedEmailBlocks,
+  readShareOptions,
+  recordShare,
+  parseShareCommand,
+} from './share.js';
+import {
+  EMAIL_SHORTCUT_ID,
+  COMPOSE_VIEW_ID,
+  COMPOSE_SCOPE_ACTION_ID,
+  buildComposeDraft,
+  buildComposeLoadingModal,
+  buildComposeModal,
+  parseRecipients,
+  readComposeScope,
+  readComposeForm,
+  type ComposeSource,
+  type SlackMessage,
+} from './email-shortcut.js';
 
 // Initialize Slack Bolt app
+// Express receiver so the bot can also serve non-Slack endpoints (Gmail push notifications)
+const receiver = new ExpressReceiver({
+  signingSecret: process.env.SLACK_SIGNING_SECRET || '',
+});
+
 const app = new App({
   token: process.env.SLACK_BOT_TOKEN,
-  signingSecret: process.env.SLACK_SIGNING_SECRET,
+  receiver,
   logLevel: LogLevel.INFO,
 });
 
+// ===================
+// GMAIL PUSH NOTIFICATIONS
+// ===================
+
+// Pub/Sub push subscriptions call this with ?token=<WATCH_PUSH_TOKEN>; disabled when unset
+const WATCH_PUSH_TOKEN = process.env.WATCH_PUSH_TOKEN || '';
+
+receiver.router.post('/gmail/push', express.json(), (req, res) => {
+  if (!WATCH_PUSH_TOKEN || req.query.token !== WATCH_PUSH_TOKEN) {
+    res.sendStatus(403);
+    return;
+  }
+
+  const notification = parseGmailPushNotification(req.body);
+  if (!notification) {
+    res.sendStatus(400);
+    return;
+  }
+
+  // Acknowledge right away so Pub/Sub does not redeliver, then check that account's watches
+  res.sendStatus(204);
+  checkAllWatches(app.client, notification.emailAddress).catch(error => console.error('Error checking watches after push:', error));
+});
+
+// ===================
+// GMAIL ACCOUNT BINDING
+// ===================
+
+function auditSourceFor(payload: { type?: string; command?: string }): AuditSource {
+  if (payload.command) return 'slash';
+  switch (payload.type) {
+    case 'block_actions':
+      return 'button';
+    case 'view_submission':
+      return 'modal';
+    case 'message_action':
+      return 'shortcut';
+    default:
+      return 'other';
+  }
+}
+
+// Make every Gmail call in a request use the credentials of the Slack user who sent it
+app.use(async ({ body, next }) => {
+  const payload = body as {
+    type?: string;
+    command?: string;
+    user_id?: string;
+    user?: { id?: string };
+    channel_id?: string;
+    channel?: { id?: string };
+    event?: { user?: string; channel?: string };
+  };
+  const userId = payload.user_id ?? payload.user?.id ?? payload.event?.user;
+  // Mailbox changes made while handling this request are logged against where it came from
+  const audit = {
+    channelId: payload.channel_id ?? payload.channel?.id ?? payload.event?.channel,
+    source: auditSourceFor(payload),
+  };
+  if (userId) {
+    await withGmailUser(userId, () => withAuditContext(audit, next));
+  } else {
+    await next();
+  }
+});
+
+const NOT_CONNECTED_TEXT = `🔌 *Connect your Gmail account first*\n\nEach person uses their own mailbox. Run \`/gmail-connect\` to link yours - it only takes a moment.`;
+
+// Listener middleware for commands that need a linked Gmail account
+const requireGmailAccount: Middleware<SlackCommandMiddlewareArgs> = async ({ command, ack, respond, next }) => {
+  if (await hasGmailCredentials(command.user_id)) {
+    await next();
+    return;
+  }
+  await ack();
+  await respond({ response_type: 'ephemeral', text: NOT_CONNECTED_TEXT });
+};
+
+const CONNECT_VIEW_ID = 'gmail_connect';
+
+// /gmail-connect - Link a Gmail account through a modal so the secret never appears in a channel
+app.command('/gmail-connect', async ({ command, ack, client, respond }) => {
+  await ack();
+
+  try {
+    await client.views.open({
+      trigger_id: command.trigger_id,
+      view: {
+        type: 'modal',
+        callback_id: CONNECT_VIEW_ID,
+        title: { type: 'plain_text', text: 'Connect Gmail' },
+        submit: { type: 'plain_text', text: 'Connect' },
+        close: { type: 'plain_text', text: 'Cancel' },
+        blocks: [
+          {
+            type: 'section',
+            text: {
+              type: 'mrkdwn',
+              text: 'Link your own mailbox. Paste the API key or OAuth token issued for you by the Gmail HTTP API. It is stored by the bot and only used for your requests.',
+            },
+          },
+          {
+            type: 'input',
+            block_id: 'credential_type',
+            label: { type: 'plain_text', text: 'Credential type' },
+            element: {
+              type: 'static_select',
+              action_id: 'value',
+              initial_option: { text: { type: 'plain_text', text: 'API key' }, value: 'api_key' },
+              options: [
+                { text: { type: 'plain_text', text: 'API key' }, value: 'api_key' },
+                { text: { type: 'plain_text', text: 'OAuth token' }, value: 'oauth_token' },
+              ],
+            },
+          },
+          {
+            type: 'input',
+            block_id: 'credential_value',
+            label: { type: 'plain_text', text: 'Key or token' },
+            element: { type: 'plain_text_input', action_id: 'value' },
+          },
+        ],
+      },
+    });
+  } catch (error) {
+    console.error('Error opening connect dialog:', error);
+    await respond({
+      response_type: 'ephemeral',
+      text: `❌ Failed to open the connect dialog: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    });
+  }
+});
+
+app.view(CONNECT_VIEW_ID, async ({ ack, body, view, client }) => {
+  const userId = body.user.id;
+  const type = view.state.values.credential_type.value.selected_option?.value as CredentialType;
+  const value = view.state.values.credential_value.value.value?.trim();
+
+  if (!value) {
+    await ack({ response_action: 'errors', errors: { credential_value: 'Please paste your key or token' } });
+    return;
+  }
+
+  await ack();
+  await setGmailCredentials(userId, type, value);
+  logRequest(userId, 'gmail_connect', 'success');
+  await client.chat.postMessage({
+    channel: userId,
+    text: `✅ *Gmail connected!* Your requests now use your own mailbox. Try \`/gmail show me unread emails\`.\n\n_Run \`/gmail-disconnect\` at any time to unlink it._`,
+  });
+});
+
+// /gmail-disconnect - Forget the user's Gmail credentials
+app.command('/gmail-disconnect', async ({ command, ack, respond }) => {
+  await ack();
+
+  const userId = command.user_id;
+  const removed = await deleteGmailCredentials(userId);
+  await clearAllConversations(userId);
+  logRequest(userId, 'gmail_disconnect', 'success');
+  await respond({
+    response_type: 'ephemeral',
+    text: removed
+      ? '🔌 Gmail disconnected. Your credentials were deleted. Use `/gmail-connect` to link an account again.'
+      : 'No Gmail account is connected. Use `/gmail-connect` to link one.',
+  });
+});
+
 // ===================
 // THREAD SESSION MANAGEMENT
 // ===================
@@ -31,7 +358,7 @@ interface ThreadSession {
 }
 
 // Active thread sessions: key = `${channelId}:${threadTs}`
-const activeSessions = new Map<string, ThreadSession>();
+const sessionStore = createStore<ThreadSession>('sessions');
 
 // Session timeout: 30 minutes
 const SESSION_TIMEOUT_MS = 30 * 60 * 1000;
@@ -40,72 +367,827 @@ function getSessionKey(channelId: string, threadTs: string): string {
   return `${channelId}:${threadTs}`;
 }
 
-function cleanupExpiredSessions() {
+async function cleanupExpiredSessions() {
   const now = Date.now();
-  for (const [key, session] of activeSessions.entries()) {
+  for (const [key, session] of await sessionStore.entries()) {
     if (now - session.lastActivity > SESSION_TIMEOUT_MS) {
-      activeSessions.delete(key);
-      clearConversation(session.userId);
+      await sessionStore.delete(key);
+      await clearConversation(session.userId, { channelId: session.channelId, threadTs: session.threadTs });
     }
   }
 }
 
-function isActiveSession(channelId: string, threadTs: string): boolean {
-  cleanupExpiredSessions();
-  return activeSessions.has(getSessionKey(channelId, threadTs));
+async function isActiveSession(channelId: string, threadTs: string): Promise<boolean> {
+  await cleanupExpiredSessions();
+  return (await sessionStore.get(getSessionKey(channelId, threadTs))) !== undefined;
 }
 
-function getSession(channelId: string, threadTs: string): ThreadSession | undefined {
-  cleanupExpiredSessions();
-  const session = activeSessions.get(getSessionKey(channelId, threadTs));
+async function getSession(channelId: string, threadTs: string): Promise<ThreadSession | undefined> {
+  await cleanupExpiredSessions();
+  const key = getSessionKey(channelId, threadTs);
+  const session = await sessionStore.get(key);
   if (session) {
     session.lastActivity = Date.now();
+    await sessionStore.set(key, session);
   }
   return session;
 }
 
-function createSession(userId: string, channelId: string, threadTs: string): ThreadSession {
+async function createSession(userId: string, channelId: string, threadTs: string): Promise<ThreadSession> {
   const session: ThreadSession = {
     userId,
     channelId,
     threadTs,
     lastActivity: Date.now(),
   };
-  activeSessions.set(getSessionKey(channelId, threadTs), session);
+  await sessionStore.set(getSessionKey(channelId, threadTs), session);
   return session;
 }
 
-function endSession(channelId: string, threadTs: string): boolean {
+async function endSession(channelId: string, threadTs: string): Promise<boolean> {
   const key = getSessionKey(channelId, threadTs);
-  const session = activeSessions.get(key);
+  const session = await sessionStore.get(key);
   if (session) {
-    clearConversation(session.userId);
-    activeSessions.delete(key);
+    await clearConversation(session.userId, { channelId, threadTs });
+    await sessionStore.delete(key);
     return true;
   }
   return false;
 }
 
 // ===================
-// SLASH COMMANDS
+// TOOL CONFIRMATIONS
 // ===================
 
-// Simple request logging (no sensitive content)
-function logRequest(userId: string, command: string, status: 'start' | 'success' | 'error', error?: string) {
-  const timestamp = new Date().toISOString();
-  const logEntry = {
-    timestamp,
-    userId,
-    command: command.substring(0, 50) + (command.length > 50 ? '...' : ''), // Truncate for privacy
-    status,
-    ...(error && { error }),
+// Build a handler that posts a Confirm/Cancel preview and waits for the click
+function confirmInSlack(
+  userId: string,
+  post: (message: { text: string; blocks: KnownBlock[] }) => Promise<unknown>
+): ToolConfirmationHandler {
+  return async (toolName, input) => {
+    const summary = summarizeToolCall(toolName, input);
+    const { id, approved } = createConfirmation(userId, summary);
+    try {
+      await post({
+        text: `🛑 Confirmation needed: ${summary}`,
+        blocks: buildConfirmationBlocks(id, toolName, input),
+      });
+    } catch (error) {
+      // Nobody saw the prompt, so nobody approved it
+      console.error('Error posting confirmation:', error);
+      cancelConfirmation(id);
+      return false;
+    }
+    return approved;
+  };
+}
+
+async function handleConfirmationClick(
+  confirmationId: string,
+  userId: string,
+  approved: boolean,
+  respond: (message: { text: string; replace_original?: boolean; response_type?: 'ephemeral' }) => Promise<unknown>
+) {
+  const result = resolveConfirmation(confirmationId, userId, approved);
+
+  if (result.status === 'forbidden') {
+    await respond({
+      response_type: 'ephemeral',
+      text: '❌ Only the person who made this request can confirm it.',
+      replace_original: false,
+    });
+    return;
+  }
+
+  if (result.status === 'not_found') {
+    await respond({
+      text: '⌛ This confirmation has expired or was already answered.',
+      replace_original: true,
+    });
+    return;
+  }
+
+  logRequest(userId, approved ? 'tool_confirmed' : 'tool_cancelled', 'success');
+  await respond({ text: confirmationOutcomeText(userId, approved, result.summary), replace_original: true });
+}
+
+function confirmationOutcomeText(userId: string, approved: boolean, summary: string): string {
+  return approved
+    ? `✅ Confirmed by <@${userId}>: ${summary}`
+    : `🚫 Cancelled by <@${userId}>: ${summary}`;
+}
+
+app.action(CONFIRM_ACTION_ID, async ({ ack, body, action, respond }) => {
+  await ack();
+  if (action.type !== 'button') return;
+  await handleConfirmationClick(action.value ?? '', body.user.id, true, respond);
+});
+
+app.action(CANCEL_ACTION_ID, async ({ ack, body, action, respond }) => {
+  await ack();
+  if (action.type !== 'button') return;
+  await handleConfirmationClick(action.value ?? '', body.user.id, false, respond);
+});
+
+// Irreversible actions - open a dialog where the word must be typed
+app.action(TYPED_CONFIRM_ACTION_ID, async ({ ack, body, action, respond, client }) => {
+  await ack();
+  if (action.type !== 'button' || body.type !== 'block_actions') return;
+
+  const confirmationId = action.value ?? '';
+  const pending = getPendingConfirmation(confirmationId);
+  if (!pending) {
+    await respond({ text: '⌛ This confirmation has expired or was already answered.', replace_original: true });
+    return;
+  }
+  if (pending.userId !== body.user.id) {
+    await respond({
+      response_type: 'ephemeral',
+      text: '❌ Only the person who made this request can confirm it.',
+      replace_original: false,
+    });
+    return;
+  }
+
+  await client.views.open({
+    trigger_id: body.trigger_id,
+    view: buildTypedConfirmationModal(confirmationId, pending.summary, body.response_url),
+  });
+});
+
+app.view(TYPED_CONFIRM_VIEW_ID, async ({ ack, body, view }) => {
+  const typed = view.state.values.typed_confirmation.value.value?.trim();
+  if (typed !== TYPED_CONFIRMATION_WORD) {
+    await ack({ response_action: 'errors', errors: { typed_confirmation: `Type ${TYPED_CONFIRMATION_WORD} exactly to confirm` } });
+    return;
+  }
+  await ack();
+
+  const userId = body.user.id;
+  const { confirmationId, responseUrl } = JSON.parse(view.private_metadata) as { confirmationId: string; responseUrl?: string };
+  const result = resolveConfirmation(confirmationId, userId, true);
+  if (result.status !== 'resolved') return;
+
+  logRequest(userId, 'tool_confirmed', 'success');
+  if (responseUrl) {
+    // Replace the original prompt so its buttons can't be clicked again
+    await fetch(responseUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ replace_original: true, text: confirmationOutcomeText(userId, true, result.summary) }),
+    }).catch(error => console.error('Error updating confirmation prompt:', error));
+  }
+});
+
+// ===================
+// FILE UPLOADS
+// ===================
+
+// Upload into a session thread, or into the user's DM when no thread is given
+function uploadToSlack(
+  client: AllMiddlewareArgs['client'],
+  userId: string,
+  thread?: { channelId: string; threadTs: string }
+): FileUploadHandler {
+  return async (file) => {
+    let channelId = thread?.channelId;
+    if (!channelId) {
+      const dm = await client.conversations.open({ users: userId });
+      channelId = dm.channel?.id;
+    }
+    if (!channelId) {
+      throw new Error('Could not open a DM to upload the file');
+    }
+
+    await client.files.uploadV2({
+      channel_id: channelId,
+      ...(thread && { thread_ts: thread.threadTs }),
+      file: file.data,
+      filename: file.filename,
+      title: file.filename,
+    });
+    logRequest(userId, 'attachment_upload', 'success');
+  };
+}
+
+// ===================
+// SNOOZE
+// ===================
+
+// IANA time zone from the user's Slack profile
+async function getUserTimeZone(client: AllMiddlewareArgs['client'], userId: string): Promise<string> {
+  const profile = await client.users.info({ user: userId });
+  return profile.user?.tz || 'UTC';
+}
+
+// Snooze an email for a user; `until` is a preset key or a local "YYYY-MM-DD HH:MM"
+async function snoozeForUser(
+  client: AllMiddlewareArgs['client'],
+  userId: string,
+  messageId: string,
+  until: string
+): Promise<{ snoozed: boolean; text: string }> {
+  const timeZone = await getUserTimeZone(client, userId);
+  const wakeAt = resolveSnoozeTime(until, timeZone);
+  if (!wakeAt) {
+    const presets = Object.keys(SNOOZE_PRESETS).join(', ');
+    return { snoozed: false, text: `❌ Couldn't snooze until "${until}". Use ${presets}, or a future date and time as YYYY-MM-DD HH:MM.` };
+  }
+
+  const email = await getEmail(messageId);
+  if (!email) {
+    return { snoozed: false, text: `❌ Email not found with ID: ${messageId}` };
+  }
+
+  const snooze = await snoozeEmail(userId, email, wakeAt, timeZone);
+  logRequest(userId, 'snooze', snooze ? 'success' : 'error');
+  return snooze
+    ? { snoozed: true, text: `💤 Snoozed "${email.subject}" until ${formatSnoozeTime(snooze)}. I'll DM you when it's back.` }
+    : { snoozed: false, text: '❌ Failed to snooze email' };
+}
+
+function snoozeHooks(client: AllMiddlewareArgs['client'], userId: string): Pick<AssistantHooks, 'snoozeEmail' | 'listSnoozedEmails'> {
+  return {
+    snoozeEmail: async (messageId, until) => (await snoozeForUser(client, userId, messageId, until)).text,
+    listSnoozedEmails: async () => formatSnoozeListForSlack(await listSnoozes(userId)),
+  };
+}
+
+// ===================
+// UNDO
+// ===================
+
+// Record reversible tool calls for the user, collecting them for the reply's Undo buttons
+function undoHooks(userId: string, recorded: UndoableAction[]): Pick<AssistantHooks, 'recordUndo'> {
+  return {
+    recordUndo: async (action) => {
+      recorded.push(await recordUndoable(userId, action));
+    },
+  };
+}
+
+function undoOutcomeText(result: Awaited<ReturnType<typeof undoAction>>): string {
+  switch (result.status) {
+    case 'undone':
+      return `↩️ Undone: ${result.action.description}`;
+    case 'failed':
+      return `❌ Couldn't undo "${result.action.description}" - the emails may have been changed or deleted since`;
+    case 'not_found':
+      return '⌛ Nothing to undo - that action is too old or was already undone.';
+  }
+}
+
+// "undo", "undo 2" or "undo list" typed in /gmail or a session thread
+async function runUndoRequest(
+  userId: string,
+  request: { list: true } | { index: number }
+): Promise<{ text: string; blocks?: KnownBlock[] }> {
+  const actions = await listUndoable(userId);
+  if ('list' in request) {
+    const text = `↩️ *Recent actions you can undo*\n\n${formatUndoListForSlack(actions)}`;
+    return { text, blocks: [...buildTextBlocks(text), ...buildUndoBlocks(userId, actions)] };
+  }
+
+  const action = actions[request.index];
+  if (!action) {
+    return { text: actions.length > 0 ? `❌ There's no action number ${request.index + 1}. Say \`undo list\` to see them.` : formatUndoListForSlack(actions) };
+  }
+  const result = await undoAction(userId, action.id);
+  logRequest(userId, 'undo', result.status === 'undone' ? 'success' : 'error');
+  return { text: undoOutcomeText(result) };
+}
+
+app.action(new RegExp(`^${UNDO_ACTION_ID}_`), async ({ ack, body, action, respond }) => {
+  await ack();
+  if (action.type !== 'button' || !action.value) return;
+
+  const userId = body.user.id;
+  const { ownerId, actionId } = parseUndoActionValue(action.value);
+  if (ownerId !== userId) {
+    await respond({
+      response_type: 'ephemeral',
+      replace_original: false,
+      text: `❌ Only <@${ownerId}> can undo this.`,
+    });
+    return;
+  }
+
+  try {
+    const result = await undoAction(userId, actionId);
+    logRequest(userId, 'undo', result.status === 'undone' ? 'success' : 'error');
+    await respond({ response_type: 'ephemeral', replace_original: false, text: undoOutcomeText(result) });
+  } catch (error) {
+    console.error('Error undoing action:', error);
+    await respond({
+      response_type: 'ephemeral',
+      replace_original: false,
+      text: `❌ Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    });
+  }
+});
+
+// ===================
+// SHARING
+// ===================
+
+// Open the share modal for an email; returns false if the email does not exist
+async function openShareModal(
+  client: AllMiddlewareArgs['client'],
+  triggerId: string,
+  userId: string,
+  messageId: string,
+  channelId?: string
+): Promise<boolean> {
+  const email = await getEmail(messageId);
+  if (!email) return false;
+
+  await client.views.open({
+    trigger_id: triggerId,
+    view: buildShareModal(email, userId, { dropBody: false, redactEmails: false, redactPhones: false }, channelId),
+  });
+  return true;
+}
+
+// Privacy checkboxes - re-render the preview with the new options
+app.action(SHARE_OPTIONS_ACTION_ID, async ({ ack, body, client }) => {
+  await ack();
+  if (body.type !== 'block_actions' || !body.view) return;
+
+  try {
+    const { messageId } = JSON.parse(body.view.private_metadata);
+    const email = await getEmail(messageId);
+    if (!email) return;
+
+    const options = readShareOptions(body.view.state.values);
+    const channelId = body.view.state.values.share_channel?.value?.selected_conversation ?? undefined;
+    await client.views.update({
+      view_id: body.view.id,
+      hash: body.view.hash,
+      view: buildShareModal(email, body.user.id, options, channelId),
+    });
+  } catch (error) {
+    console.error('Error updating share preview:', error);
+  }
+});
+
+app.view(SHARE_VIEW_ID, async ({ ack, body, view, client }) => {
+  const userId = body.user.id;
+  const channelId = view.state.values.share_channel.value.selected_conversation;
+  if (!channelId) {
+    await ack({ response_action: 'errors', errors: { share_channel: 'Pick a channel to share into' } });
+    return;
+  }
+  await ack();
+
+  const { messageId } = JSON.parse(view.private_metadata);
+  const options = readShareOptions(view.state.values);
+
+  try {
+    const email = await getEmail(messageId);
+    if (!email) {
+      await client.chat.postMessage({ channel: userId, text: `❌ Couldn't share: email not found with ID: ${messageId}` });
+      return;
+    }
+
+    const result = await client.chat.postMessage({ channel: channelId, ...buildSharedEmailBlocks(email, userId, options) });
+    await recordShare(userId, {
+      messageId,
+      subject: email.subject,
+      channelId,
+      ts: result.ts,
+      options,
+      sharedAt: Date.now(),
+    });
+    logRequest(userId, 'email_share', 'success');
+    await client.chat.postMessage({ channel: userId, text: `📤 Shared "${escapeMrkdwn(email.subject)}" in <#${channelId}>` });
+  } catch (error) {
+    console.error('Error sharing email:', error);
+    logRequest(userId, 'email_share', 'error', error instanceof Error ? error.message : 'Unknown error');
+    const notInChannel = (error as { data?: { error?: string } }).data?.error === 'not_in_channel';
+    await client.chat.postMessage({
+      channel: userId,
+      text: notInChannel
+        ? `❌ I'm not a member of <#${channelId}>. Invite me with \`/invite @Gmail Bot\` and share again.`
+        : `❌ Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    });
+  }
+});
+
+// ===================
+// "EMAIL THIS" SHORTCUT
+// ===================
+
+// Message shortcut - compose an email from a Slack message or its thread
+app.shortcut(EMAIL_SHORTCUT_ID, async ({ shortcut, ack, client }) => {
+  await ack();
+  if (shortcut.type !== 'message_action') return;
+
+  const userId = shortcut.user.id;
+  if (!(await hasGmailCredentials(userId))) {
+    await client.views.open({
+      trigger_id: shortcut.trigger_id,
+      view: {
+        type: 'modal',
+        title: { type: 'plain_text', text: 'Email this' },
+        close: { type: 'plain_text', text: 'Close' },
+        blocks: [{ type: 'section', text: { type: 'mrkdwn', text: NOT_CONNECTED_TEXT } }],
+      },
+    });
+    return;
+  }
+
+  // Open right away - the trigger expires before names and permalinks could be looked up
+  const opened = await client.views.open({ trigger_id: shortcut.trigger_id, view: buildComposeLoadingModal() });
+  const message = shortcut.message as SlackMessage & { thread_ts?: string };
+  const source: ComposeSource = {
+    channelId: shortcut.channel.id,
+    channelName: shortcut.channel.name,
+    messageTs: shortcut.message_ts,
+    threadTs: message.thread_ts,
+  };
+
+  try {
+    const timeZone = await getUserTimeZone(client, userId);
+    const draft = await buildComposeDraft(client, source, 'message', timeZone, message);
+    await client.views.update({ view_id: opened.view?.id, view: buildComposeModal(source, 'message', draft) });
+  } catch (error) {
+    console.error('Error preparing email from Slack message:', error);
+    await client.views.update({
+      view_id: opened.view?.id,
+      view: {
+        type: 'modal',
+        title: { type: 'plain_text', text: 'Email this' },
+        close: { type: 'plain_text', text: 'Close' },
+        blocks: [{
+          type: 'section',
+          text: { type: 'mrkdwn', text: `❌ Error: ${error instanceof Error ? error.message : 'Unknown error'}\n\nIf this is a private channel or DM, invite the bot first.` },
+        }],
+      },
+    });
+  }
+});
+
+// Message / whole-thread choice - re-prefill the modal
+app.action(COMPOSE_SCOPE_ACTION_ID, async ({ ack, body, client }) => {
+  await ack();
+  if (body.type !== 'block_actions' || !body.view) return;
+
+  try {
+    const source = JSON.parse(body.view.private_metadata) as ComposeSource;
+    const scope = readComposeScope(body.view.state.values);
+    const timeZone = await getUserTimeZone(client, body.user.id);
+    const draft = await buildComposeDraft(client, source, scope, timeZone);
+    await client.views.update({
+      view_id: body.view.id,
+      hash: body.view.hash,
+      view: buildComposeModal(source, scope, draft),
+    });
+  } catch (error) {
+    console.error('Error updating email draft:', error);
+  }
+});
+
+app.view(COMPOSE_VIEW_ID, async ({ ack, body, view, client }) => {
+  const userId = body.user.id;
+  const form = readComposeForm(view.state.values);
+  const to = parseRecipients(form.to);
+  const cc = parseRecipients(form.cc);
+  const scope = readComposeScope(view.state.values);
+
+  if (!to || to.length === 0) {
+    await ack({ response_action: 'errors', errors: { compose_to: 'Enter one or more email addresses, separated by commas' } });
+    return;
+  }
+  if (!cc) {
+    await ack({ response_action: 'errors', errors: { compose_cc: 'Enter email addresses, separated by commas' } });
+    return;
+  }
+  if (!form.subject) {
+    await ack({ response_action: 'errors', errors: { [`compose_subject_${scope}`]: 'Enter a subject' } });
+    return;
+  }
+  await ack();
+
+  try {
+    const result = await sendEmail(to, form.subject, form.body, cc.length > 0 ? { cc } : {});
+    logRequest(userId, 'email_this', result.success ? 'success' : 'error', result.error);
+    await client.chat.postMessage({
+      channel: userId,
+      text: result.success
+        ? `✅ Email sent!\n*To:* ${to.join(', ')}\n*Subject:* ${form.subject}`
+        : `❌ Failed to send email: ${result.error || 'Unknown error'}`,
+    });
+  } catch (error) {
+    console.error('Error sending email from Slack message:', error);
+    await client.chat.postMessage({
+      channel: userId,
+      text: `❌ Error sending email: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    });
+  }
+});
+
+// ===================
+// INTERACTIVE EMAIL LISTS
+// ===================
+
+function buildEmailListMessage(
+  userId: string,
+  title: string,
+  emails: EmailMessage[],
+  intro?: string,
+  nextPage?: EmailListNextPage
+): { text: string; blocks: KnownBlock[] } {
+  const view = createEmailListView(userId, title, emails, intro, nextPage);
+  return {
+    text: intro ?? `${title} (${emails.length})`,
+    blocks: buildEmailListBlocks(view),
   };
-  console.log(JSON.stringify(logEntry));
 }
 
+// Page size from a command argument, e.g. `/gmail-list 10`
+function parsePageSize(text: string, fallback: number = 5): number {
+  const size = parseInt(text.trim());
+  return size > 0 ? Math.min(size, MAX_LIST_PAGE_SIZE) : fallback;
+}
+
+// First page of a listing or search as a message with a Show more button when there is more
+async function buildPagedEmailList(
+  userId: string,
+  title: string,
+  query: string | undefined,
+  pageSize: number
+): Promise<{ text: string; blocks: KnownBlock[] }> {
+  const { emails, nextPageToken } = query === undefined
+    ? await listEmailPage(pageSize)
+    : await searchEmailPage(query, pageSize);
+  const nextPage = nextPageToken ? { query, pageToken: nextPageToken, pageSize, page: 2 } : undefined;
+  return buildEmailListMessage(userId, title, emails, undefined, nextPage);
+}
+
+// Claude's reply, followed by the last email list it fetched rendered with action buttons
+// Slack rejects messages with more than 50 blocks
+const MAX_MESSAGE_BLOCKS = 50;
+
+function buildAssistantReply(
+  userId: string,
+  request: string,
+  result: string,
+  emailList?: { title: string; emails: EmailMessage[] },
+  undoable: UndoableAction[] = []
+): { text: string; blocks: KnownBlock[] } {
+  const text = `> _${request}_\n\n🤖 *Gmail Assistant*\n\n${result}`;
+  const reply = emailList && emailList.emails.length > 0
+    ? buildEmailListMessage(userId, emailList.title, emailList.emails, text)
+    : { text, blocks: buildTextBlocks(text) };
+
+  const undoBlocks = buildUndoBlocks(userId, undoable);
+  if (reply.blocks.length + undoBlocks.length <= MAX_MESSAGE_BLOCKS) {
+    reply.blocks.push(...undoBlocks);
+  }
+  return reply;
+}
+
+// Run a row button's action; returns the confirmation text, or null on failure
+// Row buttons record their inverse like the assistant's tools do, so `/gmail undo` reverses them
+async function runEmailAction(userId: string, actionId: string, messageId: string): Promise<string | null> {
+  const before = await getMessageLabels([messageId]);
+  const labelUndo = (add: string[], remove: string[]) => inverseLabelChanges(before, [messageId], add, remove);
+
+  let done: { text: string; description: string; changes: UndoChange[] } | null = null;
+  switch (actionId) {
+    case EMAIL_ACTIONS.archive:
+      if (await archiveEmail(messageId)) {
+        done = { text: '📁 Email archived', description: `Archived ${messageId}`, changes: labelUndo([], ['INBOX']) };
+      }
+      break;
+    case EMAIL_ACTIONS.star:
+      if (await starEmail(messageId)) {
+        done = { text: '⭐ Email starred', description: `Starred ${messageId}`, changes: labelUndo(['STARRED'], []) };
+      }
+      break;
+    case EMAIL_ACTIONS.unstar:
+      if (await unstarEmail(messageId)) {
+        done = { text: '✅ Star removed', description: `Unstarred ${messageId}`, changes: labelUndo([], ['STARRED']) };
+      }
+      break;
+    case EMAIL_ACTIONS.markRead:
+      if (await markAsRead(messageId)) {
+        done = { text: '✅ Email marked as read', description: `Marked ${messageId} as read`, changes: labelUndo([], ['UNREAD']) };
+      }
+      break;
+    case EMAIL_ACTIONS.trash:
+      if (await trashEmail(messageId)) {
+        const wasTrashed = before.get(messageId)?.includes('TRASH') ?? true;
+        done = {
+          text: '🗑️ Email moved to trash',
+          description: `Trashed ${messageId}`,
+          changes: wasTrashed ? [] : [{ messageIds: [messageId], inverse: { type: 'untrash' } }],
+        };
+      }
+      break;
+  }
+  if (!done) return null;
+
+  if (done.changes.length > 0) {
+    await recordUndoable(userId, { description: done.description, changes: done.changes });
+  }
+  return done.text;
+}
+
+for (const actionId of Object.values(EMAIL_ACTIONS)) {
+  app.action(actionId, async ({ ack, body, action, respond }) => {
+    await ack();
+    if (action.type !== 'button' || !action.value) return;
+
+    const { listId, messageId } = parseEmailActionValue(action.value);
+    const userId = body.user.id;
+    const view = getEmailListView(listId);
+
+    // Buttons in session threads are visible to others, but act on the owner's mailbox only
+    if (view && view.ownerId !== userId) {
+      await respond({
+        response_type: 'ephemeral',
+        replace_original: false,
+        text: `❌ Only <@${view.ownerId}> can act on these emails.`,
+      });
+      return;
+    }
+
+    try {
+      if (actionId === EMAIL_ACTIONS.read) {
+        const email = await getEmail(messageId);
+        await respond({
+          response_type: 'ephemeral',
+          replace_original: false,
+          text: email ? `📧 *Email Details*\n\n${formatEmailForSlack(email, true)}` : `❌ Email not found with ID: ${messageId}`,
+        });
+        return;
+      }
+
+      const outcome = await runEmailAction(userId, actionId, messageId);
+      logRequest(userId, actionId, outcome ? 'success' : 'error');
+      if (!outcome) {
+        await respond({ response_type: 'ephemeral', replace_original: false, text: '❌ That action failed. Please try again.' });
+        return;
+      }
+
+      // Update the list in place when we still have it; otherwise just report the result
+      const email = view?.emails.find(e => e.id === messageId);
+      if (!view || !email) {
+        await respond({ response_type: 'ephemeral', replace_original: false, text: outcome });
+        return;
+      }
+
+      if (actionId === EMAIL_ACTIONS.archive) view.status[messageId] = 'archived';
+      if (actionId === EMAIL_ACTIONS.trash) view.status[messageId] = 'trashed';
+      if (actionId === EMAIL_ACTIONS.star) email.labels = [...email.labels, 'STARRED'];
+      if (actionId === EMAIL_ACTIONS.unstar) email.labels = email.labels.filter(l => l !== 'STARRED');
+      if (actionId === EMAIL_ACTIONS.markRead) email.labels = email.labels.filter(l => l !== 'UNREAD');
+
+      await respond({ replace_original: true, text: outcome, blocks: buildEmailListBlocks(view) });
+    } catch (error) {
+      console.error('Error handling email action:', error);
+      await respond({
+        response_type: 'ephemeral',
+        replace_original: false,
+        text: `❌ Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      });
+    }
+  });
+}
+
+// Snooze menu - archive the email until the chosen preset time
+app.action(SNOOZE_ACTION_ID, async ({ ack, body, action, respond, client }) => {
+  await ack();
+  if (action.type !== 'static_select') return;
+
+  const { listId, messageId, preset } = parseSnoozeActionValue(action.selected_option.value);
+  const userId = body.user.id;
+  const view = getEmailListView(listId);
+
+  if (view && view.ownerId !== userId) {
+    await respond({
+      response_type: 'ephemeral',
+      replace_original: false,
+      text: `❌ Only <@${view.ownerId}> can act on these emails.`,
+    });
+    return;
+  }
+
+  try {
+    const outcome = await snoozeForUser(client, userId, messageId, preset);
+    if (!outcome.snoozed || !view?.emails.some(e => e.id === messageId)) {
+      await respond({ response_type: 'ephemeral', replace_original: false, text: outcome.text });
+      return;
+    }
+
+    view.status[messageId] = 'snoozed';
+    await respond({ replace_original: true, text: outcome.text, blocks: buildEmailListBlocks(view) });
+  } catch (error) {
+    console.error('Error snoozing email:', error);
+    await respond({
+      response_type: 'ephemeral',
+      replace_original: false,
+      text: `❌ Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    });
+  }
+});
+
+// Share button - open the share modal for the owner's email
+app.action(SHARE_ACTION_ID, async ({ ack, body, action, respond, client }) => {
+  await ack();
+  if (action.type !== 'button' || !action.value || body.type !== 'block_actions') return;
+
+  const { listId, messageId } = parseEmailActionValue(action.value);
+  const userId = body.user.id;
+  const view = getEmailListView(listId);
+
+  if (view && view.ownerId !== userId) {
+    await respond({
+      response_type: 'ephemeral',
+      replace_original: false,
+      text: `❌ Only <@${view.ownerId}> can share these emails.`,
+    });
+    return;
+  }
+
+  try {
+    const opened = await openShareModal(client, body.trigger_id, userId, messageId, body.channel?.id);
+    if (!opened) {
+      await respond({ response_type: 'ephemeral', replace_original: false, text: `❌ Email not found with ID: ${messageId}` });
+    }
+  } catch (error) {
+    console.error('Error opening share dialog:', error);
+    await respond({
+      response_type: 'ephemeral',
+      replace_original: false,
+      text: `❌ Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    });
+  }
+});
+
+// Show more - post the next page of a list as its own message and drop the button from this one
+app.action(SHOW_MORE_ACTION_ID, async ({ ack, body, action, respond }) => {
+  await ack();
+  if (action.type !== 'button' || !action.value) return;
+
+  const userId = body.user.id;
+  const view = getEmailListView(action.value);
+  if (!view?.nextPage) {
+    await respond({
+      response_type: 'ephemeral',
+      replace_original: false,
+      text: '⌛ This list has expired. Run the command again to see more.',
+    });
+    return;
+  }
+  if (view.ownerId !== userId) {
+    await respond({
+      response_type: 'ephemeral',
+      replace_original: false,
+      text: `❌ Only <@${view.ownerId}> can page through these emails.`,
+    });
+    return;
+  }
+
+  try {
+    const { query, pageToken, pageSize, page } = view.nextPage;
+    const result = query === undefined
+      ? await listEmailPage(pageSize, undefined, pageToken)
+      : await searchEmailPage(query, pageSize, pageToken);
+
+    view.nextPage = undefined;
+    await respond({ replace_original: true, text: view.title, blocks: buildEmailListBlocks(view) });
+
+    const nextPage = result.nextPageToken
+      ? { query, pageToken: result.nextPageToken, pageSize, page: page + 1 }
+      : undefined;
+    const title = view.title.replace(/ · page \d+$/, '') + ` · page ${page}`;
+    await respond({
+      response_type: 'ephemeral',
+      replace_original: false,
+      ...buildEmailListMessage(userId, title, result.emails, undefined, nextPage),
+    });
+  } catch (error) {
+    console.error('Error loading more emails:', error);
+    await respond({
+      response_type: 'ephemeral',
+      replace_original: false,
+      text: `❌ Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    });
+  }
+});
+
+// ===================
+// SLASH COMMANDS
+// ===================
+
+// Messages Slack accepts through one slash command's response_url
+const RESPONSE_URL_MAX_MESSAGES = 5;
+
 // /gmail - Natural language Gmail assistant powered by Claude (main command)
 // Now with conversation memory per user and thread session support!
-app.command('/gmail', async ({ command, ack, respond, client }) => {
+app.command('/gmail', requireGmailAccount, async ({ command, ack, respond, client }) => {
   await ack();
 
   const userId = command.user_id;
@@ -114,7 +1196,7 @@ app.command('/gmail', async ({ command, ack, respond, client }) => {
 
   // Check for clear/reset commands
   if (request.toLowerCase() === 'clear' || request.toLowerCase() === 'reset' || request.toLowerCase() === 'start over') {
-    clearConversation(userId);
+    await clearConversation(userId, 'slash');
     await respond({
       response_type: 'ephemeral',
       text: `🔄 Conversation cleared! Starting fresh.`,
@@ -122,6 +1204,19 @@ app.command('/gmail', async ({ command, ack, respond, client }) => {
     return;
   }
 
+  const undoRequest = parseUndoRequest(request);
+  if (undoRequest) {
+    try {
+      await respond({ response_type: 'ephemeral', ...(await runUndoRequest(userId, undoRequest)) });
+    } catch (error) {
+      await respond({
+        response_type: 'ephemeral',
+        text: `❌ Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      });
+    }
+    return;
+  }
+
   // Check for session start command
   if (request.toLowerCase() === 'start') {
     try {
@@ -132,7 +1227,7 @@ app.command('/gmail', async ({ command, ack, respond, client }) => {
       });
 
       if (result.ts) {
-        createSession(userId, channelId, result.ts);
+        await createSession(userId, channelId, result.ts);
         logRequest(userId, 'session_start', 'success');
       }
     } catch (error) {
@@ -147,7 +1242,7 @@ app.command('/gmail', async ({ command, ack, respond, client }) => {
 
   // Check for session stop command (for ephemeral use outside threads)
   if (request.toLowerCase() === 'stop' || request.toLowerCase() === 'done') {
-    clearConversation(userId);
+    await clearConversation(userId, 'slash');
     await respond({
       response_type: 'ephemeral',
       text: `🔴 Session ended. Use \`/gmail start\` to begin a new session.`,
@@ -158,7 +1253,7 @@ app.command('/gmail', async ({ command, ack, respond, client }) => {
   if (!request) {
     await respond({
       response_type: 'ephemeral',
-      text: `📧 *Gmail Assistant* (with conversation memory!)\n\nJust type what you need in plain English!\n\n*Examples:*\n• \`/gmail show me unread emails\`\n• \`/gmail emails from last week\`\n• \`/gmail find emails with attachments from John\`\n• \`/gmail send an email to bob@example.com about the meeting\`\n• \`/gmail star all emails from my boss\`\n\n*Session Mode:*\n• \`/gmail start\` - Start a thread session (no /gmail needed per message!)\n\n*Conversation Commands:*\n• \`/gmail clear\` - Reset conversation memory\n• \`/gmail reset\` - Reset (alias)\n• \`/gmail start over\` - Reset (alias)\n\nType \`/gmail-help\` for all available commands.`,
+      text: `📧 *Gmail Assistant* (with conversation memory!)\n\nJust type what you need in plain English!\n\n*Examples:*\n• \`/gmail show me unread emails\`\n• \`/gmail emails from last week\`\n• \`/gmail find emails with attachments from John\`\n• \`/gmail send an email to bob@example.com about the meeting\`\n• \`/gmail star all emails from my boss\`\n\n*Session Mode:*\n• \`/gmail start\` - Start a thread session (no /gmail needed per message!)\n\n*Conversation Commands:*\n• \`/gmail clear\` - Reset conversation memory\n• \`/gmail reset\` - Reset (alias)\n• \`/gmail start over\` - Reset (alias)\n• \`/gmail undo\` - Reverse the last mailbox change\n\nType \`/gmail-help\` for all available commands.`,
     });
     return;
   }
@@ -171,17 +1266,51 @@ app.command('/gmail', async ({ command, ack, respond, client }) => {
 
   logRequest(userId, request, 'start');
 
+  // "Processing..." used one response_url message and the reply needs another. Progress updates
+  // and confirmations share the rest: progress stops at the first confirmation, and confirmations
+  // that don't fit go to the user's DM.
+  let spareResponses = RESPONSE_URL_MAX_MESSAGES - 2;
+  let confirmationPosted = false;
+  const progress = createProgressReporter(
+    request,
+    (text) => {
+      if (confirmationPosted || spareResponses <= 0) return Promise.resolve();
+      spareResponses--;
+      return respond({ response_type: 'ephemeral', replace_original: true, text });
+    },
+    { minIntervalMs: 3000, maxUpdates: 2 }
+  );
+
   try {
-    const result = await processNaturalLanguageRequest(request, userId);
+    const confirmToolCall = confirmInSlack(userId, (message) => {
+      confirmationPosted = true;
+      if (spareResponses <= 0) {
+        return client.chat.postMessage({ channel: userId, ...message });
+      }
+      spareResponses--;
+      return respond({ response_type: 'ephemeral', replace_original: false, ...message });
+    });
+    let emailList: { title: string; emails: EmailMessage[] } | undefined;
+    const undoable: UndoableAction[] = [];
+    const result = await processNaturalLanguageRequest(request, userId, {
+      confirmToolCall,
+      uploadFile: uploadToSlack(client, userId),
+      onEmailList: (title, emails) => { emailList = { title, emails }; },
+      onProgress: progress.onProgress,
+      ...snoozeHooks(client, userId),
+      ...undoHooks(userId, undoable),
+    }, 'slash');
     logRequest(userId, request, 'success');
+    await progress.stop();
     await respond({
       response_type: 'ephemeral',
-      text: `> _${request}_\n\n🤖 *Gmail Assistant*\n\n${result}`,
+      ...buildAssistantReply(userId, request, result, emailList, undoable),
       replace_original: true,
     });
   } catch (error) {
     const errorMsg = error instanceof Error ? error.message : 'Unknown error';
     logRequest(userId, request, 'error', errorMsg);
+    await progress.stop();
     await respond({
       response_type: 'ephemeral',
       text: `> _${request}_\n\n❌ Error: ${errorMsg}`,
@@ -191,17 +1320,13 @@ app.command('/gmail', async ({ command, ack, respond, client }) => {
 });
 
 // /gmail-list - List recent emails
-app.command('/gmail-list', async ({ command, ack, respond }) => {
+app.command('/gmail-list', requireGmailAccount, async ({ command, ack, respond }) => {
   await ack();
 
   try {
-    const args = command.text.trim();
-    const maxResults = args ? parseInt(args) : 5;
-
-    const emails = await listEmails(Math.min(maxResults, 10));
     await respond({
       response_type: 'ephemeral',
-      text: `📬 *Recent Emails (${emails.length})*\n\n${formatEmailListForSlack(emails)}`,
+      ...await buildPagedEmailList(command.user_id, '📬 *Recent Emails*', undefined, parsePageSize(command.text)),
     });
   } catch (error) {
     console.error('Error listing emails:', error);
@@ -213,71 +1338,106 @@ app.command('/gmail-list', async ({ command, ack, respond }) => {
 });
 
 // /gmail-search - Search emails
-app.command('/gmail-search', async ({ command, ack, respond }) => {
+app.command('/gmail-search', requireGmailAccount, async ({ command, ack, respond }) => {
+  await ack();
+
+  try {
+    const query = command.text.trim();
+    if (!query) {
+      await respond({
+        response_type: 'ephemeral',
+        text: '❌ Please provide a search query. Example: `/gmail-search from:someone@example.com`',
+      });
+      return;
+    }
+
+    await respond({
+      response_type: 'ephemeral',
+      ...await buildPagedEmailList(command.user_id, `🔍 *Search Results for "${query}"*`, query, 5),
+    });
+  } catch (error) {
+    console.error('Error searching emails:', error);
+    await respond({
+      response_type: 'ephemeral',
+      text: `❌ Error searching emails: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    });
+  }
+});
+
+// /gmail-read - Read a specific email
+app.command('/gmail-read', requireGmailAccount, async ({ command, ack, respond }) => {
   await ack();
 
-  try {
-    const query = command.text.trim();
-    if (!query) {
+  try {
+    const messageId = command.text.trim();
+    if (!messageId) {
+      await respond({
+        response_type: 'ephemeral',
+        text: '❌ Please provide an email ID. Example: `/gmail-read 19abc123def456`',
+      });
+      return;
+    }
+
+    const email = await getEmail(messageId);
+    if (!email) {
       await respond({
         response_type: 'ephemeral',
-        text: '❌ Please provide a search query. Example: `/gmail-search from:someone@example.com`',
+        text: `❌ Email not found with ID: ${messageId}`,
       });
       return;
     }
 
-    const emails = await searchEmails(query, 5);
     await respond({
       response_type: 'ephemeral',
-      text: `🔍 *Search Results for "${query}" (${emails.length})*\n\n${formatEmailListForSlack(emails)}`,
+      text: `📧 *Email Details*\n\n${formatEmailForSlack(email, true)}`,
     });
   } catch (error) {
-    console.error('Error searching emails:', error);
+    console.error('Error reading email:', error);
     await respond({
       response_type: 'ephemeral',
-      text: `❌ Error searching emails: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      text: `❌ Error reading email: ${error instanceof Error ? error.message : 'Unknown error'}`,
     });
   }
 });
 
-// /gmail-read - Read a specific email
-app.command('/gmail-read', async ({ command, ack, respond }) => {
+// /gmail-thread - Show a full conversation thread
+app.command('/gmail-thread', requireGmailAccount, async ({ command, ack, respond }) => {
   await ack();
 
   try {
-    const messageId = command.text.trim();
-    if (!messageId) {
+    const id = command.text.trim();
+    if (!id) {
       await respond({
         response_type: 'ephemeral',
-        text: '❌ Please provide an email ID. Example: `/gmail-read 19abc123def456`',
+        text: '❌ Please provide a thread or email ID. Example: `/gmail-thread 19abc123def456`',
       });
       return;
     }
 
-    const email = await getEmail(messageId);
-    if (!email) {
+    const thread = await getThreadForId(id);
+    if (!thread) {
       await respond({
         response_type: 'ephemeral',
-        text: `❌ Email not found with ID: ${messageId}`,
+        text: `❌ Thread not found for ID: ${id}`,
       });
       return;
     }
 
     await respond({
       response_type: 'ephemeral',
-      text: `📧 *Email Details*\n\n${formatEmailForSlack(email, true)}`,
+      text: `🧵 *Conversation Thread*\n\n${formatThreadForSlack(thread)}`,
     });
   } catch (error) {
-    console.error('Error reading email:', error);
+    console.error('Error reading thread:', error);
     await respond({
       response_type: 'ephemeral',
-      text: `❌ Error reading email: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      text: `❌ Error reading thread: ${error instanceof Error ? error.message : 'Unknown error'}`,
     });
   }
 });
 
 // /gmail-send - Send an email
-app.command('/gmail-send', async ({ command, ack, respond }) => {
+app.command('/gmail-send', requireGmailAccount, async ({ command, ack, respond }) => {
   await ack();
 
   try {
@@ -318,16 +1478,13 @@ app.command('/gmail-send', async ({ command, ack, respond }) => {
 });
 
 // /gmail-unread - List unread emails
-app.command('/gmail-unread', async ({ command, ack, respond }) => {
+app.command('/gmail-unread', requireGmailAccount, async ({ command, ack, respond }) => {
   await ack();
 
   try {
-    const maxResults = command.text.trim() ? parseInt(command.text.trim()) : 5;
-    const emails = await searchEmails('is:unread', Math.min(maxResults, 10));
-
     await respond({
       response_type: 'ephemeral',
-      text: `📬 *Unread Emails (${emails.length})*\n\n${formatEmailListForSlack(emails)}`,
+      ...await buildPagedEmailList(command.user_id, '📬 *Unread Emails*', 'is:unread', parsePageSize(command.text)),
     });
   } catch (error) {
     console.error('Error listing unread emails:', error);
@@ -339,7 +1496,7 @@ app.command('/gmail-unread', async ({ command, ack, respond }) => {
 });
 
 // /gmail-mark-read - Mark email as read
-app.command('/gmail-mark-read', async ({ command, ack, respond }) => {
+app.command('/gmail-mark-read', requireGmailAccount, async ({ command, ack, respond }) => {
   await ack();
 
   try {
@@ -374,7 +1531,7 @@ app.command('/gmail-mark-read', async ({ command, ack, respond }) => {
 });
 
 // /gmail-trash - Move email to trash
-app.command('/gmail-trash', async ({ command, ack, respond }) => {
+app.command('/gmail-trash', requireGmailAccount, async ({ command, ack, respond }) => {
   await ack();
 
   try {
@@ -408,6 +1565,556 @@ app.command('/gmail-trash', async ({ command, ack, respond }) => {
   }
 });
 
+// /gmail-untrash - Restore email from trash
+app.command('/gmail-untrash', requireGmailAccount, async ({ command, ack, respond }) => {
+  await ack();
+
+  try {
+    const messageId = command.text.trim();
+    if (!messageId) {
+      await respond({
+        response_type: 'ephemeral',
+        text: '❌ Please provide an email ID. Example: `/gmail-untrash 19abc123def456`',
+      });
+      return;
+    }
+
+    const success = await untrashEmail(messageId);
+    if (success) {
+      await respond({
+        response_type: 'ephemeral',
+        text: `♻️ Email restored from trash: ${messageId}`,
+      });
+    } else {
+      await respond({
+        response_type: 'ephemeral',
+        text: `❌ Failed to restore email`,
+      });
+    }
+  } catch (error) {
+    console.error('Error restoring email:', error);
+    await respond({
+      response_type: 'ephemeral',
+      text: `❌ Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    });
+  }
+});
+
+// /gmail-count - Unread counts for the inbox and each label, or for one label
+app.command('/gmail-count', requireGmailAccount, async ({ command, ack, respond }) => {
+  await ack();
+
+  try {
+    const labelName = command.text.trim();
+    if (!labelName) {
+      await respond({
+        response_type: 'ephemeral',
+        text: formatUnreadCountsForSlack(await getUnreadCounts()),
+      });
+      return;
+    }
+
+    const match = await findLabel(labelName);
+    const label = match ? await getLabel(match.id) : null;
+    await respond({
+      response_type: 'ephemeral',
+      text: label
+        ? `🏷️ *${label.name}:* ${label.messagesUnread ?? 0} unread of ${label.messagesTotal ?? 0}`
+        : `❌ Label not found: ${labelName}`,
+    });
+  } catch (error) {
+    console.error('Error counting unread emails:', error);
+    await respond({
+      response_type: 'ephemeral',
+      text: `❌ Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    });
+  }
+});
+
+// /gmail-drafts - List, view, create, send, and delete drafts
+app.command('/gmail-drafts', requireGmailAccount, async ({ command, ack, respond }) => {
+  await ack();
+
+  const usage = 'Usage: `/gmail-drafts` · `/gmail-drafts view <id>` · `/gmail-drafts new to@email.com | Subject | Body` · `/gmail-drafts send <id>` · `/gmail-drafts delete <id>`';
+
+  try {
+    const text = command.text.trim();
+    const [subcommand = 'list', ...rest] = text.split(/\s+/).filter(Boolean);
+    const arg = rest.join(' ').trim();
+
+    switch (subcommand.toLowerCase()) {
+      case 'list': {
+        const drafts = await listDrafts(10);
+        await respond({
+          response_type: 'ephemeral',
+          text: `📝 *Drafts (${drafts.length})*\n\n${formatDraftListForSlack(drafts)}`,
+        });
+        return;
+      }
+
+      case 'view': {
+        if (!arg) {
+          await respond({ response_type: 'ephemeral', text: `❌ Please provide a draft ID. ${usage}` });
+          return;
+        }
+        const draft = await getDraft(arg);
+        await respond({
+          response_type: 'ephemeral',
+          text: draft ? `📝 *Draft*\n\n${formatDraftForSlack(draft)}` : `❌ Draft not found with ID: ${arg}`,
+        });
+        return;
+      }
+
+      case 'new': {
+        const parts = arg.split('|').map(p => p.trim());
+        if (parts.length < 3) {
+          await respond({
+            response_type: 'ephemeral',
+            text: '❌ Invalid format. Use: `/gmail-drafts new to@email.com | Subject | Body text`',
+          });
+          return;
+        }
+        const [to, subject, ...bodyParts] = parts;
+        const draft = await createDraft([to], subject, bodyParts.join('|'));
+        await respond({
+          response_type: 'ephemeral',
+          text: draft
+            ? `📝 *Draft saved* - review it, then send with \`/gmail-drafts send ${draft.id}\`\n\n${formatDraftForSlack(draft)}`
+            : '❌ Failed to create draft',
+        });
+        return;
+      }
+
+      case 'send': {
+        if (!arg) {
+          await respond({ response_type: 'ephemeral', text: `❌ Please provide a draft ID. ${usage}` });
+          return;
+        }
+        const result = await sendDraft(arg);
+        await respond({
+          response_type: 'ephemeral',
+          text: result.success ? `✅ Draft sent: ${arg}` : `❌ Failed to send draft: ${result.error || 'Unknown error'}`,
+        });
+        return;
+      }
+
+      case 'delete': {
+        if (!arg) {
+          await respond({ response_type: 'ephemeral', text: `❌ Please provide a draft ID. ${usage}` });
+          return;
+        }
+        const success = await deleteDraft(arg);
+        await respond({
+          response_type: 'ephemeral',
+          text: success ? `🗑️ Draft deleted: ${arg}` : '❌ Failed to delete draft',
+        });
+        return;
+      }
+
+      default:
+        await respond({ response_type: 'ephemeral', text: `❌ Unknown subcommand. ${usage}` });
+    }
+  } catch (error) {
+    console.error('Error managing drafts:', error);
+    await respond({
+      response_type: 'ephemeral',
+      text: `❌ Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    });
+  }
+});
+
+// /gmail-vacation - Show or change the vacation responder
+app.command('/gmail-vacation', requireGmailAccount, async ({ command, ack, respond }) => {
+  await ack();
+
+  const usage = 'Usage: `/gmail-vacation` · `/gmail-vacation off` · `/gmail-vacation on [YYYY-MM-DD to YYYY-MM-DD] | Message`';
+
+  try {
+    // Parse: on|off [start [to] end] | message
+    const [head, ...messageParts] = command.text.split('|');
+    const [action, ...dateArgs] = head.trim().split(/\s+/).filter(arg => arg && arg.toLowerCase() !== 'to');
+    const message = messageParts.join('|').trim();
+
+    const current = await getVacationSettings();
+
+    if (!action) {
+      await respond({
+        response_type: 'ephemeral',
+        text: current ? `${formatVacationForSlack(current)}\n\n_${usage}_` : '❌ Could not get vacation responder settings',
+      });
+      return;
+    }
+
+    if (action.toLowerCase() === 'off') {
+      const success = await setVacationSettings({ ...current, enableAutoReply: false });
+      await respond({
+        response_type: 'ephemeral',
+        text: success ? '🔕 Vacation responder turned off' : '❌ Failed to turn off vacation responder',
+      });
+      return;
+    }
+
+    if (action.toLowerCase() !== 'on') {
+      await respond({ response_type: 'ephemeral', text: `❌ Unknown option. ${usage}` });
+      return;
+    }
+
+    // Without dates, the saved ones stay; a start date alone leaves the responder open-ended
+    let startTime: number | null | undefined = current?.startTime;
+    let endTime: number | null | undefined = current?.endTime;
+    if (dateArgs[0]) {
+      startTime = parseDateInput(dateArgs[0]);
+      endTime = dateArgs[1] ? parseDateInput(dateArgs[1], true) : undefined;
+    }
+    if (startTime === null || endTime === null) {
+      await respond({ response_type: 'ephemeral', text: `❌ Dates must be real dates in YYYY-MM-DD format. ${usage}` });
+      return;
+    }
+    if (startTime !== undefined && endTime !== undefined && endTime < startTime) {
+      await respond({ response_type: 'ephemeral', text: `❌ The end date is before the start date. ${usage}` });
+      return;
+    }
+
+    const body = message || current?.responseBodyPlainText;
+    if (!body) {
+      await respond({ response_type: 'ephemeral', text: `❌ Please include an auto-reply message. ${usage}` });
+      return;
+    }
+
+    const settings = {
+      ...current,
+      enableAutoReply: true,
+      responseSubject: current?.responseSubject || 'Out of office',
+      responseBodyPlainText: body,
+      startTime,
+      endTime,
+    };
+    const success = await setVacationSettings(settings);
+    await respond({
+      response_type: 'ephemeral',
+      text: success ? `✅ Vacation responder updated\n\n${formatVacationForSlack(settings)}` : '❌ Failed to update vacation responder',
+    });
+  } catch (error) {
+    console.error('Error updating vacation responder:', error);
+    await respond({
+      response_type: 'ephemeral',
+      text: `❌ Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    });
+  }
+});
+
+// /gmail-digest - Schedule a daily inbox digest delivered by DM
+app.command('/gmail-digest', requireGmailAccount, async ({ command, ack, respond, client }) => {
+  await ack();
+
+  const userId = command.user_id;
+  const usage = `Usage: \`/gmail-digest set 08:30 [query]\` · \`/gmail-digest pause\` · \`/gmail-digest resume\` · \`/gmail-digest now\` · \`/gmail-digest off\`\nDefault query: \`${DEFAULT_DIGEST_QUERY}\``;
+
+  try {
+    const [subcommand = '', ...rest] = command.text.trim().split(/\s+/);
+
+    switch (subcommand.toLowerCase()) {
+      case '': {
+        const settings = await getDigestSettings(userId);
+        await respond({
+          response_type: 'ephemeral',
+          text: settings
+            ? `${formatDigestSettingsForSlack(settings)}\n\n_${usage}_`
+            : `📰 No daily digest set up yet.\n\n${usage}`,
+        });
+        return;
+      }
+
+      case 'set': {
+        const time = parseDigestTime(rest[0] || '');
+        if (!time) {
+          await respond({ response_type: 'ephemeral', text: `❌ Please give a time like \`08:30\`. ${usage}` });
+          return;
+        }
+        const query = rest.slice(1).join(' ') || DEFAULT_DIGEST_QUERY;
+
+        // Digests go out at the user's local time
+        const timeZone = await getUserTimeZone(client, userId);
+
+        const settings = await saveDigestSettings(userId, time, timeZone, query);
+        logRequest(userId, 'digest_set', 'success');
+        await respond({
+          response_type: 'ephemeral',
+          text: `✅ Daily digest scheduled! I'll DM you every day.\n\n${formatDigestSettingsForSlack(settings)}`,
+        });
+        return;
+      }
+
+      case 'pause':
+      case 'resume': {
+        const settings = await setDigestEnabled(userId, subcommand.toLowerCase() === 'resume');
+        await respond({
+          response_type: 'ephemeral',
+          text: settings ? formatDigestSettingsForSlack(settings) : `📰 No daily digest set up yet.\n\n${usage}`,
+        });
+        return;
+      }
+
+      case 'off': {
+        const removed = await deleteDigestSettings(userId);
+        await respond({
+          response_type: 'ephemeral',
+          text: removed ? '🗑️ Daily digest turned off.' : 'No daily digest was set up.',
+        });
+        return;
+      }
+
+      case 'now': {
+        const settings = await getDigestSettings(userId);
+        if (!settings) {
+          await respond({ response_type: 'ephemeral', text: `📰 No daily digest set up yet.\n\n${usage}` });
+          return;
+        }
+        await respond({ response_type: 'ephemeral', text: '🤔 Building your digest - it will arrive by DM.' });
+        await sendDigest(client, userId, settings);
+        return;
+      }
+
+      default:
+        await respond({ response_type: 'ephemeral', text: `❌ Unknown option. ${usage}` });
+    }
+  } catch (error) {
+    console.error('Error managing digest:', error);
+    await respond({
+      response_type: 'ephemeral',
+      text: `❌ Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    });
+  }
+});
+
+// /gmail-watch - DM the user when new mail matches a saved query
+app.command('/gmail-watch', requireGmailAccount, async ({ command, ack, respond }) => {
+  await ack();
+
+  const userId = command.user_id;
+  const usage = 'Usage: `/gmail-watch add <Gmail query>` · `/gmail-watch list` · `/gmail-watch remove <number or ID>`';
+
+  try {
+    const [subcommand = 'list', ...rest] = command.text.trim().split(/\s+/).filter(Boolean);
+    const arg = rest.join(' ').trim();
+
+    switch (subcommand.toLowerCase()) {
+      case 'list': {
+        const watches = await listWatches(userId);
+        await respond({
+          response_type: 'ephemeral',
+          text: `🔔 *Your Watches (${watches.length})*\n\n${formatWatchListForSlack(watches)}\n\n_${usage}_`,
+        });
+        return;
+      }
+
+      case 'add': {
+        if (!arg) {
+          await respond({ response_type: 'ephemeral', text: `❌ Please provide a Gmail query. ${usage}` });
+          return;
+        }
+        const watch = await addWatch(userId, arg);
+        logRequest(userId, 'watch_add', 'success');
+        await respond({
+          response_type: 'ephemeral',
+          text: `✅ Watching \`${watch.query}\`. I'll DM you when new matching mail arrives.`,
+        });
+        return;
+      }
+
+      case 'remove': {
+        const removed = arg ? await removeWatch(userId, arg) : null;
+        await respond({
+          response_type: 'ephemeral',
+          text: removed ? `🗑️ Stopped watching \`${removed.query}\`` : `❌ Watch not found. ${usage}`,
+        });
+        return;
+      }
+
+      default:
+        await respond({ response_type: 'ephemeral', text: `❌ Unknown option. ${usage}` });
+    }
+  } catch (error) {
+    console.error('Error managing watches:', error);
+    await respond({
+      response_type: 'ephemeral',
+      text: `❌ Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    });
+  }
+});
+
+// /gmail-rules - Server-side rules applied to matching mail on a schedule
+app.command('/gmail-rules', requireGmailAccount, async ({ command, ack, respond }) => {
+  await ack();
+
+  const userId = command.user_id;
+  const usage = 'Usage: `/gmail-rules add <Gmail query> => <label NAME|archive|star|read|trash|notify>` · `/gmail-rules list` · `/gmail-rules test|enable|disable|delete <number or ID>`';
+
+  try {
+    const [subcommand = 'list', ...rest] = command.text.trim().split(/\s+/).filter(Boolean);
+    const arg = rest.join(' ').trim();
+
+    switch (subcommand.toLowerCase()) {
+      case 'list': {
+        const rules = await listRules(userId);
+        await respond({
+          response_type: 'ephemeral',
+          text: `⚙️ *Your Rules (${rules.length})*\n\n${formatRuleListForSlack(rules)}\n\n_${usage}_`,
+        });
+        return;
+      }
+
+      case 'add': {
+        const definition = parseRuleDefinition(arg);
+        if (!definition) {
+          await respond({ response_type: 'ephemeral', text: `❌ Couldn't parse that rule. ${usage}` });
+          return;
+        }
+        const rule = await addRule(userId, definition);
+        logRequest(userId, 'rule_add', 'success');
+        await respond({
+          response_type: 'ephemeral',
+          text: `✅ Added rule ${describeRule(rule)} (ID: \`${rule.id}\`)\n\nIt starts *paused*. Try \`/gmail-rules test ${rule.id}\` to see what it would match, then \`/gmail-rules enable ${rule.id}\`.`,
+        });
+        return;
+      }
+
+      case 'test': {
+        const rule = arg ? await getRule(userId, arg) : null;
+        if (!rule) {
+          await respond({ response_type: 'ephemeral', text: `❌ Rule not found. ${usage}` });
+          return;
+        }
+        const matches = await testRule(rule);
+        await respond({
+          response_type: 'ephemeral',
+          text: `🧪 *Dry run:* ${describeRule(rule)}\nWould act on ${matches.length === 10 ? 'at least 10' : matches.length} message(s) right now. Nothing was changed.\n\n${formatEmailListForSlack(matches)}`,
+        });
+        return;
+      }
+
+      case 'enable':
+      case 'disable': {
+        const enabled = subcommand.toLowerCase() === 'enable';
+        const rule = arg ? await setRuleEnabled(userId, arg, enabled) : null;
+        if (rule) logRequest(userId, `rule_${subcommand.toLowerCase()}`, 'success');
+        await respond({
+          response_type: 'ephemeral',
+          text: !rule
+            ? `❌ Rule not found. ${usage}`
+            : enabled
+              ? `🟢 Enabled ${describeRule(rule)}. It runs automatically every few minutes.`
+              : `⏸️ Paused ${describeRule(rule)}`,
+        });
+        return;
+      }
+
+      case 'delete': {
+        const removed = arg ? await deleteRule(userId, arg) : null;
+        await respond({
+          response_type: 'ephemeral',
+          text: removed ? `🗑️ Deleted rule ${describeRule(removed)}` : `❌ Rule not found. ${usage}`,
+        });
+        return;
+      }
+
+      default:
+        await respond({ response_type: 'ephemeral', text: `❌ Unknown option. ${usage}` });
+    }
+  } catch (error) {
+    console.error('Error managing rules:', error);
+    await respond({
+      response_type: 'ephemeral',
+      text: `❌ Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    });
+  }
+});
+
+// /gmail-share - Post an email into a channel, with a preview and redaction options first
+app.command('/gmail-share', requireGmailAccount, async ({ command, ack, respond, client }) => {
+  await ack();
+
+  const parsed = parseShareCommand(command.text);
+  if (!parsed) {
+    await respond({
+      response_type: 'ephemeral',
+      text: '❌ Please provide an email ID. Example: `/gmail-share 19abc123def456 #support`',
+    });
+    return;
+  }
+
+  try {
+    const opened = await openShareModal(client, command.trigger_id, command.user_id, parsed.messageId, parsed.channelId ?? command.channel_id);
+    if (!opened) {
+      await respond({ response_type: 'ephemeral', text: `❌ Email not found with ID: ${parsed.messageId}` });
+    }
+  } catch (error) {
+    console.error('Error opening share dialog:', error);
+    await respond({
+      response_type: 'ephemeral',
+      text: `❌ Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    });
+  }
+});
+
+const DEFAULT_AUDIT_LIMIT = 20;
+const MAX_AUDIT_LIMIT = 50;
+
+// Parse "[N] [action] [YYYY-MM-DD[..YYYY-MM-DD]]" in any order; null if a date is invalid
+function parseAuditFilter(text: string): AuditFilter | null {
+  const filter: AuditFilter = { limit: DEFAULT_AUDIT_LIMIT };
+  for (const token of text.trim().split(/\s+/).filter(Boolean)) {
+    if (/^\d+$/.test(token)) {
+      filter.limit = Math.min(Math.max(parseInt(token), 1), MAX_AUDIT_LIMIT);
+    } else if (/^\d{4}-/.test(token)) {
+      const [from, to = from] = token.split('..');
+      const since = parseDateInput(from);
+      const until = parseDateInput(to, true);
+      if (since === null || until === null) return null;
+      filter.since = since;
+      filter.until = until;
+    } else {
+      filter.action = token.toLowerCase();
+    }
+  }
+  return filter;
+}
+
+// /gmail-audit - Review recent changes made to your mailbox through the bot
+app.command('/gmail-audit', async ({ command, ack, respond, client }) => {
+  await ack();
+
+  const filter = parseAuditFilter(command.text);
+  if (!filter) {
+    await respond({
+      response_type: 'ephemeral',
+      text: '❌ Dates must be in YYYY-MM-DD format. Usage: `/gmail-audit [count] [action] [YYYY-MM-DD[..YYYY-MM-DD]]`, e.g. `/gmail-audit 50 trash 2024-06-01..2024-06-30`',
+    });
+    return;
+  }
+
+  try {
+    const entries = await listAuditEntries(command.user_id, filter);
+    const timeZone = await getUserTimeZone(client, command.user_id);
+    const heading = [
+      `🧾 *Your last ${entries.length} mailbox actions*`,
+      ...(filter.action ? [`matching \`${filter.action}\``] : []),
+    ].join(' ');
+    await respond({
+      response_type: 'ephemeral',
+      text: entries.length > 0
+        ? `${heading}\n\n${formatAuditEntriesForSlack(entries, timeZone)}`
+        : formatAuditEntriesForSlack(entries, timeZone),
+    });
+  } catch (error) {
+    console.error('Error reading audit log:', error);
+    await respond({
+      response_type: 'ephemeral',
+      text: `❌ Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    });
+  }
+});
+
 // /gmail-help - Show available commands
 app.command('/gmail-help', async ({ ack, respond }) => {
   await ack();
@@ -428,6 +2135,7 @@ app.command('/gmail-help', async ({ ack, respond }) => {
 • Multi-turn conversations - refer to previous results
 • Say "unsubscribe from 1, 3, 5" after seeing a list
 • \`/gmail clear\` or \`reset\` or \`start over\` - Reset memory
+• \`/gmail undo\` - Reverse the last trash/archive/star/label change (\`undo list\` to pick an earlier one)
 
 *📬 EMAIL OPERATIONS (17):*
 • List/search emails • Read email content
@@ -438,6 +2146,7 @@ app.command('/gmail-help', async ({ ack, respond }) => {
 • Permanently delete • Get unread count
 • Batch modify labels • Batch star emails
 • Get email by ID • Search with any Gmail operator
+• Snooze emails until later (💤 menu on every list)
 
 *🧵 THREADS (1):*
 • Get full email conversation thread
@@ -462,8 +2171,13 @@ app.command('/gmail-help', async ({ ack, respond }) => {
 
 *📋 Direct Commands:*
 \`/gmail-list\` \`/gmail-unread\` \`/gmail-search\`
-\`/gmail-read\` \`/gmail-send\` \`/gmail-mark-read\`
-\`/gmail-trash\` \`/gmail-help\`
+\`/gmail-read\` \`/gmail-thread\` \`/gmail-send\` \`/gmail-mark-read\`
+\`/gmail-trash\` \`/gmail-untrash\` \`/gmail-count\`
+\`/gmail-drafts\` \`/gmail-vacation\`
+\`/gmail-digest\` \`/gmail-watch\` \`/gmail-rules\` \`/gmail-share\`
+\`/gmail-audit\` \`/gmail-help\`
+
+*🔌 Account:* \`/gmail-connect\` \`/gmail-disconnect\`
 `;
 
   await respond({
@@ -494,7 +2208,7 @@ app.message(async ({ message, client }) => {
   if (!channelId || !threadTs || !userId || !text) return;
 
   // Check if this is an active session thread
-  const session = getSession(channelId, threadTs);
+  const session = await getSession(channelId, threadTs);
   if (!session) return;
 
   // Only respond to the user who started the session
@@ -502,7 +2216,7 @@ app.message(async ({ message, client }) => {
 
   // Check for stop commands
   if (text.toLowerCase() === 'stop' || text.toLowerCase() === 'done' || text.toLowerCase() === 'end') {
-    endSession(channelId, threadTs);
+    await endSession(channelId, threadTs);
     logRequest(userId, 'session_end', 'success');
     await client.chat.postMessage({
       channel: channelId,
@@ -514,7 +2228,7 @@ app.message(async ({ message, client }) => {
 
   // Check for clear/reset commands
   if (text.toLowerCase() === 'clear' || text.toLowerCase() === 'reset' || text.toLowerCase() === 'start over') {
-    clearConversation(userId);
+    await clearConversation(userId, { channelId, threadTs });
     await client.chat.postMessage({
       channel: channelId,
       thread_ts: threadTs,
@@ -523,6 +2237,20 @@ app.message(async ({ message, client }) => {
     return;
   }
 
+  const undoRequest = parseUndoRequest(text);
+  if (undoRequest) {
+    try {
+      await client.chat.postMessage({ channel: channelId, thread_ts: threadTs, ...(await runUndoRequest(userId, undoRequest)) });
+    } catch (error) {
+      await client.chat.postMessage({
+        channel: channelId,
+        thread_ts: threadTs,
+        text: `❌ Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      });
+    }
+    return;
+  }
+
   // Process the request through Claude
   logRequest(userId, text, 'start');
 
@@ -533,21 +2261,41 @@ app.message(async ({ message, client }) => {
     text: '🤔 Processing...',
   });
 
+  const progress = createProgressReporter(text, (status) =>
+    typingMsg.ts
+      ? client.chat.update({ channel: channelId, ts: typingMsg.ts, text: status })
+      : Promise.resolve()
+  );
+
   try {
-    const result = await processNaturalLanguageRequest(text, userId);
+    const confirmToolCall = confirmInSlack(userId, (message) =>
+      client.chat.postMessage({ channel: channelId, thread_ts: threadTs, ...message })
+    );
+    let emailList: { title: string; emails: EmailMessage[] } | undefined;
+    const undoable: UndoableAction[] = [];
+    const result = await processNaturalLanguageRequest(text, userId, {
+      confirmToolCall,
+      uploadFile: uploadToSlack(client, userId, { channelId, threadTs }),
+      onEmailList: (title, emails) => { emailList = { title, emails }; },
+      onProgress: progress.onProgress,
+      ...snoozeHooks(client, userId),
+      ...undoHooks(userId, undoable),
+    }, { channelId, threadTs });
     logRequest(userId, text, 'success');
+    await progress.stop();
 
     // Update the typing message with the actual response
     if (typingMsg.ts) {
       await client.chat.update({
         channel: channelId,
         ts: typingMsg.ts,
-        text: `> _${text}_\n\n🤖 *Gmail Assistant*\n\n${result}`,
+        ...buildAssistantReply(userId, text, result, emailList, undoable),
       });
     }
   } catch (error) {
     const errorMsg = error instanceof Error ? error.message : 'Unknown error';
     logRequest(userId, text, 'error', errorMsg);
+    await progress.stop();
 
     if (typingMsg.ts) {
       await client.chat.update({
@@ -563,5 +2311,9 @@ app.message(async ({ message, client }) => {
 (async () => {
   const port = parseInt(process.env.PORT || '3000');
   await app.start(port);
+  startDigestScheduler(app.client);
+  startWatchPoller(app.client);
+  startRulesScheduler(app.client);
+  startSnoozeScheduler(app.client);
   console.log(`⚡️ Gmail Slack Bot is running on port ${port}`);
 })();
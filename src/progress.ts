@@ -0,0 +1,129 @@
+/**
+ * Live progress for assistant requests
+ * Turns the assistant's progress events into a status message (tool steps plus the reply
+ * streamed so far) and pushes it to Slack no more often than the rate limits allow
+ */
+
+import type { AssistantProgressEvent, ProgressHandler } from './gmail-assistant.js';
+
+export interface ProgressReporterOptions {
+  minIntervalMs?: number; // Least time between two updates
+  maxUpdates?: number; // Stop updating after this many (response_url only takes a few)
+}
+
+// Friendlier names for the tools users see most; others are shown by name
+const TOOL_LABELS: Record<string, string> = {
+  search_emails: 'Searching emails',
+  list_recent_emails: 'Listing recent emails',
+  get_email_details: 'Reading an email',
+  get_thread: 'Reading the thread',
+  send_email: 'Sending an email',
+  reply_to_email: 'Replying',
+  reply_all_to_email: 'Replying to all',
+  forward_email: 'Forwarding',
+  trash_email: 'Moving an email to trash',
+  archive_email: 'Archiving',
+  star_email: 'Starring',
+  get_labels: 'Looking up labels',
+  find_marketing_emails: 'Finding marketing emails',
+};
+
+// Longest streamed reply shown in the status; the full reply replaces it at the end
+const MAX_PREVIEW_LENGTH = 1500;
+
+// Steps shown at once; older ones are summarized as a count
+const MAX_VISIBLE_STEPS = 8;
+
+function toolLabel(toolName: string): string {
+  return TOOL_LABELS[toolName] ?? toolName.replace(/_/g, ' ');
+}
+
+interface Step {
+  label: string;
+  summary?: string;
+  status: 'running' | 'done' | 'error';
+}
+
+const STEP_ICONS: Record<Step['status'], string> = {
+  running: '⏳',
+  done: '✅',
+  error: '⚠️',
+};
+
+// Call stop() and wait for it before posting the final reply, so a late update can't overwrite it
+export function createProgressReporter(
+  request: string,
+  update: (text: string) => Promise<unknown>,
+  { minIntervalMs = 1500, maxUpdates = Infinity }: ProgressReporterOptions = {}
+): { onProgress: ProgressHandler; stop: () => Promise<void> } {
+  const steps: Step[] = [];
+  let preview = '';
+  let lastUpdateAt = 0;
+  let updatesSent = 0;
+  let timer: NodeJS.Timeout | undefined;
+  let stopped = false;
+  // Updates are chained so they reach Slack in order
+  let inFlight: Promise<unknown> = Promise.resolve();
+
+  function render(): string {
+    const hidden = steps.length - MAX_VISIBLE_STEPS;
+    const lines = steps.slice(-MAX_VISIBLE_STEPS).map(step =>
+      `${STEP_ICONS[step.status]} ${step.label}${step.summary ? ` - _${step.summary}_` : ''}`
+    );
+    const text = preview.length > MAX_PREVIEW_LENGTH ? preview.substring(0, MAX_PREVIEW_LENGTH) + '...' : preview;
+    return [
+      `> _${request}_`,
+      '🤔 *Working on it...*',
+      ...(hidden > 0 ? [`_${hidden} earlier steps_`] : []),
+      ...lines,
+      ...(text ? ['', text] : []),
+    ].join('\n');
+  }
+
+  function flush() {
+    timer = undefined;
+    if (stopped || updatesSent >= maxUpdates) return;
+    lastUpdateAt = Date.now();
+    updatesSent++;
+    const text = render();
+    inFlight = inFlight
+      .then(() => update(text))
+      .catch(error => console.error('Progress update failed:', error));
+  }
+
+  function schedule() {
+    if (stopped || timer) return;
+    const wait = Math.max(0, lastUpdateAt + minIntervalMs - Date.now());
+    timer = setTimeout(flush, wait);
+  }
+
+  const onProgress = (event: AssistantProgressEvent) => {
+    switch (event.type) {
+      case 'tool_started':
+        // A new turn's text starts once the tools have run
+        preview = '';
+        steps.push({ label: toolLabel(event.toolName), status: 'running' });
+        break;
+      case 'tool_finished': {
+        const step = [...steps].reverse().find(s => s.status === 'running' && s.label === toolLabel(event.toolName));
+        if (step) {
+          step.status = event.isError ? 'error' : 'done';
+          step.summary = event.summary;
+        }
+        break;
+      }
+      case 'text':
+        preview = event.text;
+        break;
+    }
+    schedule();
+  };
+
+  const stop = async () => {
+    stopped = true;
+    if (timer) clearTimeout(timer);
+    await inFlight;
+  };
+
+  return { onProgress, stop };
+}
@@ -0,0 +1,31 @@
+/**
+ * Structured request logging
+ * One JSON line per event, shared by the slash commands and the background jobs.
+ * Commands are truncated and no email content is ever logged.
+ */
+
+export type RequestStatus = 'start' | 'success' | 'error';
+
+// Simple request logging (no sensitive content); errors go to stderr
+export function logRequest(
+  userId: string,
+  command: string,
+  status: RequestStatus,
+  error?: string,
+  details?: Record<string, string | number>
+) {
+  const timestamp = new Date().toISOString();
+  const logEntry = {
+    timestamp,
+    userId,
+    command: command.substring(0, 50) + (command.length > 50 ? '...' : ''), // Truncate for privacy
+    status,
+    ...details,
+    ...(error && { error }),
+  };
+  if (status === 'error') {
+    console.error(JSON.stringify(logEntry));
+  } else {
+    console.log(JSON.stringify(logEntry));
+  }
+}
@@ -0,0 +1,302 @@
+/**
+ * Server-side mail rules
+ * "When a message matches <Gmail query>, do <action>", stored per user and applied
+ * on a schedule through the batch endpoints. New rules start disabled so they can
+ * be dry-run with `test` first.
+ */
+
+import { randomUUID } from 'node:crypto';
+import type { App } from '@slack/bolt';
+import {
+  searchEmails,
+  batchModifyEmails,
+  findLabel,
+  createLabel,
+  withGmailUser,
+  formatEmailForSlack,
+  type EmailMessage,
+} from './gmail-client.js';
+import { createStore } from './store.js';
+import { withAuditContext } from './audit.js';
+import { hasGmailCredentials } from './credentials.js';
+import { logRequest } from './request-log.js';
+
+type SlackClient = App['client'];
+
+export const RULE_ACTIONS = ['label', 'archive', 'star', 'read', 'trash', 'notify'] as const;
+export type RuleAction = typeof RULE_ACTIONS[number];
+
+export interface MailRule {
+  id: string;
+  query: string;
+  action: RuleAction;
+  labelId?: string;
+  labelName?: string;
+  enabled: boolean;
+  createdAt: number;
+  lastRunAt?: number;
+  notifiedIds?: string[]; // notify rules only: messages already sent to the user
+}
+
+interface UserRules {
+  rules: MailRule[];
+}
+
+const MAX_RULES_PER_USER = 20;
+
+// Messages handled per rule per run; the rest are picked up on later runs
+const RULE_BATCH_SIZE = 50;
+
+const MAX_NOTIFIED_IDS = 500;
+
+// Run interval (default: 15 minutes, override with RULES_INTERVAL_MS)
+const RULES_INTERVAL_MS = parseInt(process.env.RULES_INTERVAL_MS || '') || 15 * 60 * 1000;
+
+// Key: Slack user ID
+const ruleStore = createStore<UserRules>('rules');
+
+// Narrow the query to messages the action has not been applied to yet, so runs are idempotent
+function pendingQuery(rule: MailRule): string {
+  switch (rule.action) {
+    case 'label':
+      return `(${rule.query}) -label:"${rule.labelName}"`;
+    case 'archive':
+      return `(${rule.query}) in:inbox`;
+    case 'star':
+      return `(${rule.query}) -is:starred`;
+    case 'read':
+      return `(${rule.query}) is:unread`;
+    case 'trash':
+    case 'notify':
+      return rule.query;
+  }
+}
+
+export function describeRule(rule: MailRule): string {
+  const action = rule.action === 'label' ? `label "${rule.labelName}"`
+    : rule.action === 'read' ? 'mark read'
+    : rule.action === 'notify' ? 'notify me'
+    : rule.action;
+  return `\`${rule.query}\` → *${action}*`;
+}
+
+export function formatRuleListForSlack(rules: MailRule[]): string {
+  if (rules.length === 0) {
+    return 'No rules set up.';
+  }
+  return rules.map((rule, i) =>
+    `${i + 1}. ${rule.enabled ? '🟢' : '⏸️'} ${describeRule(rule)} · ID: \`${rule.id}\``
+  ).join('\n');
+}
+
+export async function listRules(userId: string): Promise<MailRule[]> {
+  return (await ruleStore.get(userId))?.rules ?? [];
+}
+
+// Parse "<query> => <action> [label name]"
+export function parseRuleDefinition(text: string): { query: string; action: RuleAction; labelName?: string } | null {
+  const [query, actionText] = text.split('=>').map(part => part?.trim());
+  if (!query || !actionText) return null;
+
+  const [action, ...labelParts] = actionText.split(/\s+/);
+  const normalized = action.toLowerCase() === 'mark' ? 'read' : action.toLowerCase();
+  if (!(RULE_ACTIONS as readonly string[]).includes(normalized)) return null;
+
+  const labelName = normalized === 'label'
+    ? labelParts.join(' ').trim()
+    : undefined;
+  if (normalized === 'label' && !labelName) return null;
+
+  return { query, action: normalized as RuleAction, labelName };
+}
+
+// Call with the user's Gmail credentials bound (label rules resolve or create the label)
+export async function addRule(
+  userId: string,
+  definition: { query: string; action: RuleAction; labelName?: string }
+): Promise<MailRule> {
+  const state = (await ruleStore.get(userId)) ?? { rules: [] };
+  if (state.rules.length >= MAX_RULES_PER_USER) {
+    throw new Error(`You can have at most ${MAX_RULES_PER_USER} rules. Delete one first.`);
+  }
+
+  const rule: MailRule = {
+    id: randomUUID().slice(0, 8),
+    query: definition.query,
+    action: definition.action,
+    enabled: false,
+    createdAt: Date.now(),
+  };
+
+  if (definition.action === 'label' && definition.labelName) {
+    const label = await findLabel(definition.labelName) ?? await createLabel(definition.labelName);
+    if (!label) {
+      throw new Error(`Could not find or create label "${definition.labelName}"`);
+    }
+    rule.labelId = label.id;
+    rule.labelName = label.name;
+  }
+
+  state.rules.push(rule);
+  await ruleStore.set(userId, state);
+  return rule;
+}
+
+function findRuleIndex(rules: MailRule[], idOrIndex: string): number {
+  const index = /^\d+$/.test(idOrIndex)
+    ? parseInt(idOrIndex) - 1
+    : rules.findIndex(rule => rule.id === idOrIndex);
+  return index >= 0 && index < rules.length ? index : -1;
+}
+
+export async function getRule(userId: string, idOrIndex: string): Promise<MailRule | null> {
+  const rules = await listRules(userId);
+  const index = findRuleIndex(rules, idOrIndex);
+  return index === -1 ? null : rules[index];
+}
+
+// Call with the user's Gmail credentials bound (enabling a notify rule reads current matches)
+export async function setRuleEnabled(userId: string, idOrIndex: string, enabled: boolean): Promise<MailRule | null> {
+  const state = await ruleStore.get(userId);
+  const index = state ? findRuleIndex(state.rules, idOrIndex) : -1;
+  if (!state || index === -1) return null;
+
+  const rule = state.rules[index];
+  if (enabled && !rule.enabled && rule.action === 'notify') {
+    // Only mail arriving after the rule is turned on should trigger a notification
+    const existing = await searchEmails(rule.query, RULE_BATCH_SIZE);
+    rule.notifiedIds = existing.map(email => email.id);
+  }
+
+  rule.enabled = enabled;
+  await ruleStore.set(userId, state);
+  return rule;
+}
+
+export async function deleteRule(userId: string, idOrIndex: string): Promise<MailRule | null> {
+  const state = await ruleStore.get(userId);
+  const index = state ? findRuleIndex(state.rules, idOrIndex) : -1;
+  if (!state || index === -1) return null;
+
+  const [removed] = state.rules.splice(index, 1);
+  if (state.rules.length === 0) {
+    await ruleStore.delete(userId);
+  } else {
+    await ruleStore.set(userId, state);
+  }
+  return removed;
+}
+
+// Dry run: the messages the rule would act on right now (call with Gmail credentials bound)
+export async function testRule(rule: MailRule, maxResults: number = 10): Promise<EmailMessage[]> {
+  if (rule.action === 'label') {
+    // The query filters by label name, so look the name up by ID in case the label was renamed
+    const label = await findLabel(rule.labelId!);
+    if (!label) {
+      throw new Error(`Label "${rule.labelName}" no longer exists`);
+    }
+    rule.labelName = label.name;
+  }
+  const emails = await searchEmails(pendingQuery(rule), maxResults);
+  return rule.action === 'notify'
+    ? emails.filter(email => !rule.notifiedIds?.includes(email.id))
+    : emails;
+}
+
+// Throws when any message was left unchanged, so the run is logged as an error and retried
+async function modifyOrThrow(messageIds: string[], addLabelIds?: string[], removeLabelIds?: string[]) {
+  const result = await batchModifyEmails(messageIds, addLabelIds, removeLabelIds);
+  if (result.failed.length > 0) {
+    throw new Error(`${result.failed.length} of ${messageIds.length} messages not changed: ${result.error || 'Unknown error'}`);
+  }
+}
+
+async function applyRule(client: SlackClient, userId: string, rule: MailRule): Promise<number> {
+  const emails = await testRule(rule, RULE_BATCH_SIZE);
+  if (emails.length === 0) return 0;
+  const messageIds = emails.map(email => email.id);
+
+  switch (rule.action) {
+    case 'label':
+      await modifyOrThrow(messageIds, [rule.labelId!], undefined);
+      break;
+    case 'archive':
+      await modifyOrThrow(messageIds, undefined, ['INBOX']);
+      break;
+    case 'star':
+      await modifyOrThrow(messageIds, ['STARRED'], undefined);
+      break;
+    case 'read':
+      await modifyOrThrow(messageIds, undefined, ['UNREAD']);
+      break;
+    case 'trash':
+      await modifyOrThrow(messageIds, ['TRASH'], ['INBOX']);
+      break;
+    case 'notify':
+      // Each ID is noted as soon as its DM is out, so a failed send doesn't repeat the earlier ones
+      for (const email of emails) {
+        await client.chat.postMessage({
+          channel: userId,
+          text: `📬 *Rule matched:* ${describeRule(rule)}\n\n${formatEmailForSlack(email)}`,
+        });
+        rule.notifiedIds = [...(rule.notifiedIds ?? []), email.id].slice(-MAX_NOTIFIED_IDS);
+      }
+      break;
+  }
+  return emails.length;
+}
+
+// Re-read before saving so rules edited while the run was in progress are not overwritten.
+// Failed runs still save the notifications sent before the failure.
+async function recordRuleRun(userId: string, ran: MailRule, succeeded: boolean) {
+  const state = await ruleStore.get(userId);
+  const rule = state?.rules.find(r => r.id === ran.id);
+  if (!state || !rule) return;
+
+  if (succeeded) rule.lastRunAt = Date.now();
+  rule.notifiedIds = ran.notifiedIds;
+  rule.labelName = ran.labelName;
+  await ruleStore.set(userId, state);
+}
+
+async function runUserRules(client: SlackClient, userId: string, rules: MailRule[]) {
+  for (const rule of rules.filter(r => r.enabled)) {
+    try {
+      const affected = await withGmailUser(userId, () =>
+        withAuditContext({ source: 'rule' }, () => applyRule(client, userId, rule))
+      );
+      await recordRuleRun(userId, rule, true);
+      if (affected > 0) {
+        logRequest(userId, `rule_${rule.action}`, 'success', undefined, { affected });
+      }
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      logRequest(userId, `rule_${rule.action}`, 'error', errorMsg);
+      await recordRuleRun(userId, rule, false).catch(saveError => console.error('Failed to save rule run:', saveError));
+    }
+  }
+}
+
+let running = false;
+
+async function runAllRules(client: SlackClient) {
+  // Skip this tick if the previous run is still going
+  if (running) return;
+  running = true;
+
+  try {
+    for (const [userId, state] of await ruleStore.entries()) {
+      // Rules of a disconnected account wait until Gmail is linked again
+      if (!(await hasGmailCredentials(userId))) continue;
+      await runUserRules(client, userId, state.rules.map(rule => ({ ...rule })));
+    }
+  } finally {
+    running = false;
+  }
+}
+
+export function startRulesScheduler(client: SlackClient): void {
+  setInterval(() => {
+    runAllRules(client).catch(error => console.error('Rules scheduler error:', error));
+  }, RULES_INTERVAL_MS);
+}
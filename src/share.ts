@@ -0,0 +1,195 @@
+/**
+ * Sharing an email into a channel
+ * The user picks a channel and redaction options in a modal with a live preview;
+ * the email is then posted as a regular (non-ephemeral) message and the share is logged
+ */
+
+import type { KnownBlock, ModalView } from '@slack/bolt';
+import type { EmailMessage } from './gmail-client.js';
+import { buildTextBlocks, escapeMrkdwn } from './email-blocks.js';
+import { createStore } from './store.js';
+
+export const SHARE_VIEW_ID = 'gmail_share';
+export const SHARE_OPTIONS_ACTION_ID = 'share_options';
+
+export interface ShareOptions {
+  dropBody: boolean;
+  redactEmails: boolean;
+  redactPhones: boolean;
+  comment?: string;
+}
+
+export interface ShareRecord {
+  messageId: string;
+  subject: string;
+  channelId: string;
+  ts?: string;
+  options: ShareOptions;
+  sharedAt: number;
+}
+
+interface UserShares {
+  shares: ShareRecord[];
+}
+
+const SHARE_OPTION_LABELS: Record<Exclude<keyof ShareOptions, 'comment'>, string> = {
+  dropBody: 'Leave out the email body',
+  redactEmails: 'Redact email addresses',
+  redactPhones: 'Redact phone numbers',
+};
+
+// Longest body posted; the rest stays in the mailbox
+const MAX_SHARED_BODY_LENGTH = 2500;
+
+// Shares kept per user in the log
+const MAX_SHARE_RECORDS = 200;
+
+// Key: Slack user ID of the person who shared
+const shareStore = createStore<UserShares>('shares');
+
+const EMAIL_PATTERN = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi;
+// Numbers with separators, e.g. 555-123-4567, (555) 123 4567, +44 20 7946 0958
+const PHONE_PATTERN = /(?<![\w+])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)\s?|\d{2,4}[\s.-])\d{3,4}[\s.-]\d{3,4}(?!\w)/g;
+
+export function redactText(text: string, options: ShareOptions): string {
+  let result = text;
+  if (options.redactEmails) {
+    result = result.replace(EMAIL_PATTERN, '[email redacted]');
+  }
+  if (options.redactPhones) {
+    result = result.replace(PHONE_PATTERN, '[phone redacted]');
+  }
+  return result;
+}
+
+// The shared message, also used as the preview in the modal
+export function buildSharedEmailBlocks(
+  email: EmailMessage,
+  sharerId: string,
+  options: ShareOptions
+): { text: string; blocks: KnownBlock[] } {
+  const redact = (text: string) => escapeMrkdwn(redactText(text, options));
+  const subject = redact(email.subject);
+
+  const blocks: KnownBlock[] = [
+    { type: 'context', elements: [{ type: 'mrkdwn', text: `📤 Shared by <@${sharerId}> from their inbox` }] },
+  ];
+  if (options.comment) {
+    blocks.push(...buildTextBlocks(`💬 ${options.comment}`));
+  }
+
+  const header = [
+    `📧 *${subject}*`,
+    `*From:* ${redact(email.from)}`,
+    `*To:* ${redact(email.to)}`,
+    ...(email.cc ? [`*Cc:* ${redact(email.cc)}`] : []),
+    `*Date:* ${escapeMrkdwn(email.date)}`,
+  ].join('\n');
+  blocks.push({ type: 'section', text: { type: 'mrkdwn', text: header } });
+
+  if (options.dropBody) {
+    blocks.push({ type: 'context', elements: [{ type: 'mrkdwn', text: '_Email body not included_' }] });
+  } else {
+    const body = email.body || email.snippet;
+    const clipped = body.length > MAX_SHARED_BODY_LENGTH ? body.substring(0, MAX_SHARED_BODY_LENGTH) + '...' : body;
+    blocks.push(...buildTextBlocks(redact(clipped)));
+  }
+
+  return { text: `📤 Shared email: ${subject}`, blocks };
+}
+
+type ModalStateValues = Record<string, Record<string, {
+  value?: string | null;
+  selected_options?: { value: string }[];
+}>>;
+
+// Share options from the modal's current state
+export function readShareOptions(values: ModalStateValues): ShareOptions {
+  const selected = values.share_options?.[SHARE_OPTIONS_ACTION_ID]?.selected_options?.map(o => o.value) ?? [];
+  const comment = values.share_comment?.value?.value?.trim();
+  return {
+    dropBody: selected.includes('dropBody'),
+    redactEmails: selected.includes('redactEmails'),
+    redactPhones: selected.includes('redactPhones'),
+    ...(comment && { comment }),
+  };
+}
+
+export function buildShareModal(
+  email: EmailMessage,
+  sharerId: string,
+  options: ShareOptions,
+  channelId?: string
+): ModalView {
+  const checkbox = (key: keyof typeof SHARE_OPTION_LABELS) => ({
+    text: { type: 'plain_text' as const, text: SHARE_OPTION_LABELS[key] },
+    value: key,
+  });
+  const checked = (Object.keys(SHARE_OPTION_LABELS) as (keyof typeof SHARE_OPTION_LABELS)[])
+    .filter(key => options[key])
+    .map(checkbox);
+
+  return {
+    type: 'modal',
+    callback_id: SHARE_VIEW_ID,
+    private_metadata: JSON.stringify({ messageId: email.id }),
+    title: { type: 'plain_text', text: 'Share email' },
+    submit: { type: 'plain_text', text: 'Share' },
+    close: { type: 'plain_text', text: 'Cancel' },
+    blocks: [
+      {
+        type: 'input',
+        block_id: 'share_channel',
+        label: { type: 'plain_text', text: 'Post in' },
+        element: {
+          type: 'conversations_select',
+          action_id: 'value',
+          filter: { include: ['public', 'private'], exclude_bot_users: true },
+          ...(channelId ? { initial_conversation: channelId } : { default_to_current_conversation: true }),
+        },
+      },
+      {
+        type: 'input',
+        block_id: 'share_options',
+        optional: true,
+        dispatch_action: true,
+        label: { type: 'plain_text', text: 'Privacy' },
+        element: {
+          type: 'checkboxes',
+          action_id: SHARE_OPTIONS_ACTION_ID,
+          options: (Object.keys(SHARE_OPTION_LABELS) as (keyof typeof SHARE_OPTION_LABELS)[]).map(checkbox),
+          ...(checked.length > 0 && { initial_options: checked }),
+        },
+      },
+      {
+        type: 'input',
+        block_id: 'share_comment',
+        optional: true,
+        label: { type: 'plain_text', text: 'Comment' },
+        element: {
+          type: 'plain_text_input',
+          action_id: 'value',
+          multiline: true,
+          ...(options.comment && { initial_value: options.comment }),
+        },
+      },
+      { type: 'divider' },
+      { type: 'context', elements: [{ type: 'mrkdwn', text: '*Preview* - this is what the channel will see (your comment goes on top)' }] },
+      ...buildSharedEmailBlocks(email, sharerId, { ...options, comment: undefined }).blocks,
+    ],
+  };
+}
+
+export async function recordShare(userId: string, record: ShareRecord): Promise<void> {
+  const state = (await shareStore.get(userId)) ?? { shares: [] };
+  state.shares = [...state.shares, record].slice(-MAX_SHARE_RECORDS);
+  await shareStore.set(userId, state);
+}
+
+// Parse "<id> [#channel]"; Slack sends the channel as <#C123|name> when channel escaping is on,
+// otherwise the channel is left for the user to pick in the modal
+export function parseShareCommand(text: string): { messageId: string; channelId?: string } | null {
+  const [messageId, channel] = text.trim().split(/\s+/);
+  if (!messageId) return null;
+  return { messageId, channelId: channel?.match(/^<#(\w+)(?:\|[^>]*)?>$/)?.[1] };
+}
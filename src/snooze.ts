@@ -0,0 +1,250 @@
+/**
+ * Snoozed emails
+ * Snoozing archives a message and records when it should wake up; at that time it
+ * goes back to the inbox as unread and the user gets a reminder by DM
+ */
+
+import type { App } from '@slack/bolt';
+import {
+  archiveEmail,
+  batchModifyEmails,
+  withGmailUser,
+  GmailApiError,
+  type EmailMessage,
+} from './gmail-client.js';
+import { createStore } from './store.js';
+import { withAuditContext } from './audit.js';
+import { hasGmailCredentials } from './credentials.js';
+import { logRequest } from './request-log.js';
+
+type SlackClient = App['client'];
+
+export const SNOOZE_PRESETS = {
+  later_today: 'Later today',
+  tomorrow: 'Tomorrow morning',
+  next_week: 'Next week',
+} as const;
+export type SnoozePreset = keyof typeof SNOOZE_PRESETS;
+
+export interface SnoozedEmail {
+  messageId: string;
+  subject: string;
+  from: string;
+  wakeAt: number; // epoch ms
+  timeZone: string; // IANA name the wake-up time was chosen in
+  createdAt: number;
+}
+
+interface UserSnoozes {
+  snoozes: SnoozedEmail[];
+}
+
+// "Later today" is a few hours out; morning presets wake at 08:00 local time
+const LATER_TODAY_MS = 3 * 60 * 60 * 1000;
+const MORNING_HOUR = 8;
+
+// Snoozes further out than this are rejected
+const MAX_SNOOZE_MS = 365 * 24 * 60 * 60 * 1000;
+
+// How often the scheduler looks for snoozes that are due
+const SNOOZE_CHECK_INTERVAL_MS = 60 * 1000;
+
+// Key: Slack user ID
+const snoozeStore = createStore<UserSnoozes>('snoozes');
+
+interface LocalParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+function localParts(timeZone: string, date: Date): LocalParts {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) => parseInt(parts.find(p => p.type === type)?.value ?? '0');
+  return { year: get('year'), month: get('month'), day: get('day'), hour: get('hour'), minute: get('minute'), second: get('second') };
+}
+
+// Epoch ms of a wall-clock time in a time zone (day overflow is allowed, e.g. day 32)
+function zonedTimeToEpoch(timeZone: string, year: number, month: number, day: number, hour: number, minute: number): number {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  const offsetAt = (epoch: number) => {
+    const p = localParts(timeZone, new Date(epoch));
+    return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - Math.floor(epoch / 1000) * 1000;
+  };
+  // Second pass corrects the offset when the guess lands on the other side of a DST change
+  const guess = wallClock - offsetAt(wallClock);
+  return wallClock - offsetAt(guess);
+}
+
+// Wake-up time for a preset key or a local "YYYY-MM-DD HH:MM"; null if invalid or not in the future
+export function resolveSnoozeTime(value: string, timeZone: string, now: number = Date.now()): number | null {
+  const today = localParts(timeZone, new Date(now));
+  let wakeAt: number;
+
+  if (value === 'later_today') {
+    wakeAt = now + LATER_TODAY_MS;
+  } else if (value === 'tomorrow') {
+    wakeAt = zonedTimeToEpoch(timeZone, today.year, today.month, today.day + 1, MORNING_HOUR, 0);
+  } else if (value === 'next_week') {
+    // Next Monday morning
+    const weekday = new Date(Date.UTC(today.year, today.month - 1, today.day)).getUTCDay();
+    const daysUntilMonday = (8 - weekday) % 7 || 7;
+    wakeAt = zonedTimeToEpoch(timeZone, today.year, today.month, today.day + daysUntilMonday, MORNING_HOUR, 0);
+  } else {
+    const match = value.trim().match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[ T](\d{1,2}):(\d{2}))?$/);
+    if (!match) return null;
+    const [, year, month, day, hour = String(MORNING_HOUR), minute = '0'] = match;
+    if (parseInt(month) > 12 || parseInt(day) > 31 || parseInt(hour) > 23 || parseInt(minute) > 59) return null;
+    wakeAt = zonedTimeToEpoch(timeZone, parseInt(year), parseInt(month), parseInt(day), parseInt(hour), parseInt(minute));
+  }
+
+  return wakeAt > now && wakeAt - now <= MAX_SNOOZE_MS ? wakeAt : null;
+}
+
+// Human-readable wake-up time in the user's time zone, e.g. "Tue, Oct 20, 08:00"
+export function formatSnoozeTime(snooze: Pick<SnoozedEmail, 'wakeAt' | 'timeZone'>): string {
+  return new Intl.DateTimeFormat('en-US', {
+    timeZone: snooze.timeZone,
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).format(new Date(snooze.wakeAt));
+}
+
+// Call with the user's Gmail credentials bound
+export async function snoozeEmail(
+  userId: string,
+  email: EmailMessage,
+  wakeAt: number,
+  timeZone: string
+): Promise<SnoozedEmail | null> {
+  if (!(await archiveEmail(email.id))) {
+    return null;
+  }
+
+  const snooze: SnoozedEmail = {
+    messageId: email.id,
+    subject: email.subject,
+    from: email.from,
+    wakeAt,
+    timeZone,
+    createdAt: Date.now(),
+  };
+
+  // Snoozing the same email again replaces its earlier wake-up time
+  const state = (await snoozeStore.get(userId)) ?? { snoozes: [] };
+  state.snoozes = [...state.snoozes.filter(s => s.messageId !== email.id), snooze];
+  await snoozeStore.set(userId, state);
+  return snooze;
+}
+
+export async function listSnoozes(userId: string): Promise<SnoozedEmail[]> {
+  const snoozes = (await snoozeStore.get(userId))?.snoozes ?? [];
+  return [...snoozes].sort((a, b) => a.wakeAt - b.wakeAt);
+}
+
+export function formatSnoozeListForSlack(snoozes: SnoozedEmail[]): string {
+  if (snoozes.length === 0) {
+    return 'No snoozed emails.';
+  }
+  return snoozes.map((snooze, i) =>
+    `${i + 1}. *${snooze.subject}* - ${snooze.from}\n    💤 Back ${formatSnoozeTime(snooze)} · ID: \`${snooze.messageId}\``
+  ).join('\n');
+}
+
+function gmailLink(messageId: string): string {
+  return `https://mail.google.com/mail/u/0/#all/${messageId}`;
+}
+
+async function wakeSnooze(client: SlackClient, userId: string, snooze: SnoozedEmail) {
+  let restored = true;
+  try {
+    const result = await withGmailUser(userId, () =>
+      withAuditContext({ source: 'snooze' }, () => batchModifyEmails([snooze.messageId], ['INBOX', 'UNREAD'], undefined))
+    );
+    restored = result.failed.length === 0;
+  } catch (error) {
+    // Temporary failures are retried on the next check; anything else still gets its reminder
+    if (error instanceof GmailApiError && error.retryable) throw error;
+    restored = false;
+    const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+    logRequest(userId, 'snooze_wake', 'error', errorMsg);
+  }
+
+  await client.chat.postMessage({
+    channel: userId,
+    text: [
+      `⏰ *Snoozed email is back:* <${gmailLink(snooze.messageId)}|${snooze.subject}>`,
+      `From: ${snooze.from}`,
+      restored
+        ? `It's in your inbox again, marked unread. Read it here with \`/gmail-read ${snooze.messageId}\``
+        : `⚠️ I couldn't move it back to your inbox - it may have been deleted. ID: \`${snooze.messageId}\``,
+    ].join('\n'),
+  });
+}
+
+// Re-read before saving so snoozes added while waking others are kept
+async function removeSnoozes(userId: string, woken: SnoozedEmail[]) {
+  const state = await snoozeStore.get(userId);
+  if (!state) return;
+
+  state.snoozes = state.snoozes.filter(s => !woken.some(w => w.messageId === s.messageId && w.wakeAt === s.wakeAt));
+  if (state.snoozes.length === 0) {
+    await snoozeStore.delete(userId);
+  } else {
+    await snoozeStore.set(userId, state);
+  }
+}
+
+let checking = false;
+
+async function wakeDueSnoozes(client: SlackClient) {
+  // Skip this tick if the previous one is still running
+  if (checking) return;
+  checking = true;
+
+  try {
+    const now = Date.now();
+    for (const [userId, state] of await snoozeStore.entries()) {
+      // Snoozes of a disconnected account wake once Gmail is linked again
+      if (!(await hasGmailCredentials(userId))) continue;
+      const woken: SnoozedEmail[] = [];
+      for (const snooze of state.snoozes.filter(s => s.wakeAt <= now)) {
+        try {
+          await wakeSnooze(client, userId, snooze);
+          woken.push(snooze);
+          logRequest(userId, 'snooze_wake', 'success');
+        } catch (error) {
+          const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+          logRequest(userId, 'snooze_wake', 'error', errorMsg);
+        }
+      }
+      if (woken.length > 0) {
+        await removeSnoozes(userId, woken);
+      }
+    }
+  } finally {
+    checking = false;
+  }
+}
+
+export function startSnoozeScheduler(client: SlackClient): void {
+  setInterval(() => {
+    wakeDueSnoozes(client).catch(error => console.error('Snooze scheduler error:', error));
+  }, SNOOZE_CHECK_INTERVAL_MS);
+}
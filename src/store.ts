@@ -0,0 +1,100 @@
+/**
+ * Pluggable key-value storage for bot state
+ * STORE_BACKEND=file (default) keeps data in JSON files under DATA_DIR so it survives restarts;
+ * STORE_BACKEND=memory keeps everything in process memory (useful for local development)
+ */
+
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+
+export interface KeyValueStore<T> {
+  get(key: string): Promise<T | undefined>;
+  set(key: string, value: T): Promise<void>;
+  delete(key: string): Promise<boolean>;
+  entries(): Promise<Array<[string, T]>>;
+}
+
+export const DATA_DIR = process.env.DATA_DIR || './data';
+const STORE_BACKEND = process.env.STORE_BACKEND || 'file';
+
+export function createMemoryStore<T>(): KeyValueStore<T> {
+  const data = new Map<string, T>();
+
+  return {
+    async get(key) {
+      return data.get(key);
+    },
+    async set(key, value) {
+      data.set(key, value);
+    },
+    async delete(key) {
+      return data.delete(key);
+    },
+    async entries() {
+      return [...data.entries()];
+    },
+  };
+}
+
+// One JSON file per store, loaded on first use and rewritten on every change
+export function createFileStore<T>(name: string): KeyValueStore<T> {
+  const file = path.join(DATA_DIR, `${name}.json`);
+  let data: Map<string, T> | null = null;
+  let pendingWrite: Promise<void> = Promise.resolve();
+
+  async function load(): Promise<Map<string, T>> {
+    if (data) {
+      return data;
+    }
+
+    try {
+      const raw = await fs.readFile(file, 'utf8');
+      data = new Map(Object.entries(JSON.parse(raw) as Record<string, T>));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+      data = new Map();
+    }
+    return data;
+  }
+
+  // Writes are queued so concurrent changes never interleave; temp file + rename
+  // means a crash never leaves a half-written file
+  function save(): Promise<void> {
+    const snapshot = JSON.stringify(Object.fromEntries(data ?? []), null, 2);
+    pendingWrite = pendingWrite
+      .catch(() => undefined)
+      .then(async () => {
+        await fs.mkdir(DATA_DIR, { recursive: true });
+        const tmpFile = `${file}.tmp`;
+        await fs.writeFile(tmpFile, snapshot, { mode: 0o600 });
+        await fs.rename(tmpFile, file);
+      });
+    return pendingWrite;
+  }
+
+  return {
+    async get(key) {
+      return (await load()).get(key);
+    },
+    async set(key, value) {
+      (await load()).set(key, value);
+      await save();
+    },
+    async delete(key) {
+      const deleted = (await load()).delete(key);
+      if (deleted) {
+        await save();
+      }
+      return deleted;
+    },
+    async entries() {
+      return [...(await load()).entries()];
+    },
+  };
+}
+
+export function createStore<T>(name: string): KeyValueStore<T> {
+  return STORE_BACKEND === 'memory' ? createMemoryStore<T>() : createFileStore<T>(name);
+}
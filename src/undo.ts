@@ -0,0 +1,204 @@
+/**
+ * Undo for assistant mailbox actions
+ * Reversible tool calls (trash, archive, star, read state, labels) are recorded with
+ * their inverse, so "undo" or an Undo button can put things back for a while afterwards
+ */
+
+import { randomUUID } from 'node:crypto';
+import type { KnownBlock } from '@slack/bolt';
+import { batchModifyEmails, untrashEmail } from './gmail-client.js';
+import { createStore } from './store.js';
+
+export const UNDO_ACTION_ID = 'gmail_undo';
+
+// How to reverse an action: a label change on the same messages, or restoring them from trash
+export type UndoOperation =
+  | { type: 'modify'; addLabelIds?: string[]; removeLabelIds?: string[] }
+  | { type: 'untrash' };
+
+// Messages that share an inverse; one action has a change per distinct prior state
+export interface UndoChange {
+  messageIds: string[];
+  inverse: UndoOperation;
+}
+
+export interface UndoableAction {
+  id: string;
+  description: string; // what was done, e.g. "Trashed email 19abc..."
+  changes: UndoChange[];
+  createdAt: number;
+}
+
+interface UserUndo {
+  actions: UndoableAction[];
+}
+
+// Actions can be undone for this long (default: 30 minutes, override with UNDO_WINDOW_MS)
+const UNDO_WINDOW_MS = parseInt(process.env.UNDO_WINDOW_MS || '') || 30 * 60 * 1000;
+
+const MAX_UNDO_ACTIONS = 20;
+
+// Undo buttons shown under one assistant reply
+const MAX_UNDO_BUTTONS = 5;
+
+// Key: Slack user ID
+const undoStore = createStore<UserUndo>('undo');
+
+// Actions being undone right now; a second click or "undo" meanwhile finds nothing to undo
+const undoing = new Set<string>();
+
+function isRecent(action: UndoableAction, now: number = Date.now()): boolean {
+  return now - action.createdAt <= UNDO_WINDOW_MS;
+}
+
+// The inverse of a label change for each message, given the labels it had before. Messages the
+// change left as they were are skipped, so undoing never touches state the user set themselves.
+export function inverseLabelChanges(
+  labelsBefore: Map<string, string[]>,
+  messageIds: string[],
+  addLabelIds: string[] = [],
+  removeLabelIds: string[] = []
+): UndoChange[] {
+  const changes = new Map<string, UndoChange>();
+  for (const id of messageIds) {
+    const labels = labelsBefore.get(id);
+    if (!labels) continue;
+    const added = addLabelIds.filter(label => !labels.includes(label));
+    const removed = removeLabelIds.filter(label => labels.includes(label));
+    if (added.length === 0 && removed.length === 0) continue;
+
+    const key = `${removed.join(',')}|${added.join(',')}`;
+    const change = changes.get(key);
+    if (change) {
+      change.messageIds.push(id);
+    } else {
+      changes.set(key, {
+        messageIds: [id],
+        inverse: {
+          type: 'modify',
+          ...(removed.length > 0 && { addLabelIds: removed }),
+          ...(added.length > 0 && { removeLabelIds: added }),
+        },
+      });
+    }
+  }
+  return [...changes.values()];
+}
+
+export function countUndoMessages(changes: UndoChange[]): number {
+  return changes.reduce((total, change) => total + change.messageIds.length, 0);
+}
+
+export async function recordUndoable(
+  userId: string,
+  action: Pick<UndoableAction, 'description' | 'changes'>
+): Promise<UndoableAction> {
+  const recorded: UndoableAction = { id: randomUUID().slice(0, 8), ...action, createdAt: Date.now() };
+  const state = (await undoStore.get(userId)) ?? { actions: [] };
+  state.actions = [...state.actions.filter(a => isRecent(a)), recorded].slice(-MAX_UNDO_ACTIONS);
+  await undoStore.set(userId, state);
+  return recorded;
+}
+
+// Actions still inside the undo window, newest first
+export async function listUndoable(userId: string): Promise<UndoableAction[]> {
+  const actions = (await undoStore.get(userId))?.actions ?? [];
+  return actions.filter(a => isRecent(a)).reverse();
+}
+
+export type UndoResult =
+  | { status: 'undone'; action: UndoableAction }
+  | { status: 'failed'; action: UndoableAction }
+  | { status: 'not_found' };
+
+async function applyInverse(change: UndoChange): Promise<boolean> {
+  if (change.inverse.type === 'untrash') {
+    const results = await Promise.all(change.messageIds.map(id => untrashEmail(id)));
+    return results.every(Boolean);
+  }
+  const result = await batchModifyEmails(change.messageIds, change.inverse.addLabelIds, change.inverse.removeLabelIds);
+  return result.failed.length === 0;
+}
+
+// Re-read before saving so actions recorded meanwhile are kept
+async function updateActions(userId: string, update: (actions: UndoableAction[]) => UndoableAction[]) {
+  const state = (await undoStore.get(userId)) ?? { actions: [] };
+  state.actions = update(state.actions);
+  await undoStore.set(userId, state);
+}
+
+// Reverse an action by ID, or the most recent one; call with the user's Gmail credentials bound.
+// The action is taken out of the store before its inverse runs, so it can't be applied twice,
+// and put back if the inverse fails.
+export async function undoAction(userId: string, actionId?: string): Promise<UndoResult> {
+  const actions = await listUndoable(userId);
+  const action = actionId ? actions.find(a => a.id === actionId) : actions[0];
+  if (!action || undoing.has(action.id)) {
+    return { status: 'not_found' };
+  }
+
+  undoing.add(action.id);
+  try {
+    await updateActions(userId, current => current.filter(a => a.id !== action.id));
+    // Inverses are idempotent, so trying the whole action again after a partial failure is safe
+    const restore = () => updateActions(userId, current =>
+      [...current, action].sort((a, b) => a.createdAt - b.createdAt).slice(-MAX_UNDO_ACTIONS)
+    );
+
+    let success = true;
+    try {
+      for (const change of action.changes) {
+        success = (await applyInverse(change)) && success;
+      }
+    } catch (error) {
+      await restore();
+      throw error;
+    }
+    if (!success) {
+      await restore();
+      return { status: 'failed', action };
+    }
+    return { status: 'undone', action };
+  } finally {
+    undoing.delete(action.id);
+  }
+}
+
+// "undo" (the last action), "undo 2" (the second most recent), or "undo list"
+export function parseUndoRequest(text: string): { list: true } | { index: number } | null {
+  const match = text.trim().toLowerCase().match(/^undo(?:\s+(list|\d+))?$/);
+  if (!match) return null;
+  if (match[1] === 'list') return { list: true };
+  return { index: match[1] ? Math.max(parseInt(match[1]), 1) - 1 : 0 };
+}
+
+function minutesAgo(action: UndoableAction): string {
+  const minutes = Math.round((Date.now() - action.createdAt) / 60000);
+  return minutes < 1 ? 'just now' : `${minutes} min ago`;
+}
+
+export function formatUndoListForSlack(actions: UndoableAction[]): string {
+  if (actions.length === 0) {
+    return 'Nothing to undo - only actions from the last few minutes can be reversed.';
+  }
+  return actions.map((action, i) => `${i + 1}. ${action.description} · _${minutesAgo(action)}_`).join('\n');
+}
+
+// Undo buttons for the given actions; the value carries the owner so others can't undo for them
+export function buildUndoBlocks(ownerId: string, actions: UndoableAction[]): KnownBlock[] {
+  if (actions.length === 0) return [];
+  return [{
+    type: 'actions',
+    elements: actions.slice(0, MAX_UNDO_BUTTONS).map(action => ({
+      type: 'button' as const,
+      action_id: `${UNDO_ACTION_ID}_${action.id}`,
+      text: { type: 'plain_text' as const, text: `↩️ Undo: ${action.description}`.substring(0, 75) },
+      value: `${ownerId}:${action.id}`,
+    })),
+  }];
+}
+
+export function parseUndoActionValue(value: string): { ownerId: string; actionId: string } {
+  const [ownerId, actionId] = value.split(':');
+  return { ownerId, actionId };
+}
@@ -0,0 +1,185 @@
+/**
+ * New-mail notifications for user-defined watch queries
+ * Watches are polled on an interval (and on Gmail push notifications); each new
+ * matching message is sent to the user by DM once
+ */
+
+import { randomUUID } from 'node:crypto';
+import type { App } from '@slack/bolt';
+import { searchEmails, withGmailUser, formatEmailForSlack, getAccountAddress } from './gmail-client.js';
+import { createStore } from './store.js';
+import { hasGmailCredentials } from './credentials.js';
+import { logRequest } from './request-log.js';
+
+type SlackClient = App['client'];
+
+export interface WatchQuery {
+  id: string;
+  query: string;
+  createdAt: number;
+}
+
+interface UserWatches {
+  watches: WatchQuery[];
+  seen: string[]; // Message IDs already notified (or present when a watch was added)
+  emailAddress?: string; // Gmail address of the linked account, to match push notifications
+}
+
+// Most watches per user, and how many recent matches each check looks at
+const MAX_WATCHES_PER_USER = 10;
+const MAX_RESULTS_PER_CHECK = 10;
+
+// Seen IDs kept per user - enough to cover every watch's recent results
+const MAX_SEEN_IDS = 1000;
+
+// Poll interval (default: 5 minutes, override with WATCH_POLL_INTERVAL_MS)
+const WATCH_POLL_INTERVAL_MS = parseInt(process.env.WATCH_POLL_INTERVAL_MS || '') || 5 * 60 * 1000;
+
+// Key: Slack user ID
+const watchStore = createStore<UserWatches>('watches');
+
+export async function listWatches(userId: string): Promise<WatchQuery[]> {
+  return (await watchStore.get(userId))?.watches ?? [];
+}
+
+export async function addWatch(userId: string, query: string): Promise<WatchQuery> {
+  const state = (await watchStore.get(userId)) ?? { watches: [], seen: [] };
+  if (state.watches.length >= MAX_WATCHES_PER_USER) {
+    throw new Error(`You can have at most ${MAX_WATCHES_PER_USER} watches. Remove one first.`);
+  }
+
+  // Mail that already matches is not "new", so mark it seen up front
+  const existing = await withGmailUser(userId, () => searchEmails(query, MAX_RESULTS_PER_CHECK));
+  const watch: WatchQuery = { id: randomUUID().slice(0, 8), query, createdAt: Date.now() };
+
+  state.watches.push(watch);
+  state.emailAddress = await withGmailUser(userId, () => getAccountAddress()) ?? state.emailAddress;
+  state.seen = [...new Set([...state.seen, ...existing.map(email => email.id)])].slice(-MAX_SEEN_IDS);
+  await watchStore.set(userId, state);
+  return watch;
+}
+
+// Remove by watch ID or by its 1-based position in the list
+export async function removeWatch(userId: string, idOrIndex: string): Promise<WatchQuery | null> {
+  const state = await watchStore.get(userId);
+  if (!state) return null;
+
+  const index = /^\d+$/.test(idOrIndex)
+    ? parseInt(idOrIndex) - 1
+    : state.watches.findIndex(watch => watch.id === idOrIndex);
+  if (index < 0 || index >= state.watches.length) return null;
+
+  const [removed] = state.watches.splice(index, 1);
+  if (state.watches.length === 0) {
+    await watchStore.delete(userId);
+  } else {
+    await watchStore.set(userId, state);
+  }
+  return removed;
+}
+
+export function formatWatchListForSlack(watches: WatchQuery[]): string {
+  if (watches.length === 0) {
+    return 'No watches set up.';
+  }
+  return watches.map((watch, i) => `${i + 1}. \`${watch.query}\` · ID: \`${watch.id}\``).join('\n');
+}
+
+async function checkUserWatches(client: SlackClient, userId: string, state: UserWatches) {
+  const seen = new Set(state.seen);
+  let notified = 0;
+  // Looked up on every check, since the user may have linked a different account
+  const previousAddress = state.emailAddress;
+  state.emailAddress = await withGmailUser(userId, () => getAccountAddress()) ?? previousAddress;
+
+  try {
+    for (const watch of state.watches) {
+      const emails = await withGmailUser(userId, () => searchEmails(watch.query, MAX_RESULTS_PER_CHECK));
+      for (const email of emails) {
+        if (seen.has(email.id)) continue;
+
+        await client.chat.postMessage({
+          channel: userId,
+          text: `🔔 *New email matching* \`${watch.query}\`\n\n${formatEmailForSlack(email)}`,
+        });
+        seen.add(email.id);
+        state.seen.push(email.id);
+        notified++;
+      }
+    }
+  } finally {
+    // Saved even when a later search or DM fails, so sent notifications are not repeated
+    if (notified > 0 || state.emailAddress !== previousAddress) {
+      state.seen = state.seen.slice(-MAX_SEEN_IDS);
+      await watchStore.set(userId, state);
+    }
+  }
+}
+
+let checking: Promise<void> | null = null;
+
+// Checks asked for while another runs, by account address ('' = everyone); each runs once afterwards
+const queued = new Map<string, Promise<void>>();
+
+// Check every user's watches, or with an address only those of the account it belongs to
+export function checkAllWatches(client: SlackClient, emailAddress?: string): Promise<void> {
+  const wanted = emailAddress?.toLowerCase() ?? '';
+  if (checking) {
+    let next = queued.get(wanted);
+    if (!next) {
+      next = checking.catch(() => undefined).then(() => {
+        queued.delete(wanted);
+        return checkAllWatches(client, emailAddress);
+      });
+      queued.set(wanted, next);
+    }
+    return next;
+  }
+
+  checking = (async () => {
+    try {
+      for (const [userId, state] of await watchStore.entries()) {
+        // Accounts whose address isn't known yet are left to the next poll
+        if (wanted && state.emailAddress !== wanted) continue;
+        // No checks for disconnected accounts; their watches resume after /gmail-connect
+        if (!(await hasGmailCredentials(userId))) continue;
+        try {
+          await checkUserWatches(client, userId, state);
+        } catch (error) {
+          const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+          logRequest(userId, 'watch_check', 'error', errorMsg);
+        }
+      }
+    } finally {
+      checking = null;
+    }
+  })();
+  return checking;
+}
+
+export function startWatchPoller(client: SlackClient): void {
+  setInterval(() => {
+    checkAllWatches(client).catch(error => console.error('Watch poller error:', error));
+  }, WATCH_POLL_INTERVAL_MS);
+}
+
+// Gmail push notifications arrive as Pub/Sub envelopes with base64 JSON data;
+// a plain `{ emailAddress, historyId }` body (e.g. from a local stand-in) is accepted too
+export function parseGmailPushNotification(body: unknown): { emailAddress: string; historyId?: string } | null {
+  if (!body || typeof body !== 'object') return null;
+
+  let payload = body as { message?: { data?: string }; emailAddress?: unknown; historyId?: unknown };
+  if (payload.message?.data) {
+    try {
+      payload = JSON.parse(Buffer.from(payload.message.data, 'base64').toString('utf8')) ?? {};
+    } catch {
+      return null;
+    }
+  }
+  // Without an address there is no way to tell whose watches to check
+  if (typeof payload.emailAddress !== 'string' || !payload.emailAddress) return null;
+  return {
+    emailAddress: payload.emailAddress,
+    ...(payload.historyId !== undefined && { historyId: String(payload.historyId) }),
+  };
+}